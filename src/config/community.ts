@@ -0,0 +1,15 @@
+import { TCommunitySort } from "../types";
+
+/**
+ * Orders communities can be listed in.
+ */
+export const COMMUNITY_SORTS: TCommunitySort[] = [
+  "created",
+  "-created",
+  "name",
+  "-name",
+  "members",
+  "-members",
+];
+
+export const DEFAULT_COMMUNITY_SORT: TCommunitySort = "created";
@@ -7,4 +7,20 @@ export const PG_PASSWORD = process.env.NODE_POSTGRES_PASSWORD;
 export const PG_HOST = process.env.NODE_POSTGRES_HOST;
 export const PG_PORT = process.env.NODE_POSTGRES_PORT;
 export const PG_SSL = process.env.NODE_POSTGRES_SSL;
-export const PG_CLIENT_MIN_MSG = process.env.NODE_POSTGRES_CLIENT_MIN_MESSAGES;
\ No newline at end of file
+export const PG_CLIENT_MIN_MSG = process.env.NODE_POSTGRES_CLIENT_MIN_MESSAGES;
+export const ACCESS_TOKEN_TTL = Number(process.env.NODE_ACCESS_TOKEN_TTL) || 15 * 60; // seconds
+export const REFRESH_TOKEN_TTL = Number(process.env.NODE_REFRESH_TOKEN_TTL) || 30 * 24 * 60 * 60; // seconds
+export const EMAIL_VERIFICATION_TTL = Number(process.env.NODE_EMAIL_VERIFICATION_TTL) || 24 * 60 * 60; // seconds
+export const REQUIRE_VERIFIED_EMAIL = process.env.NODE_REQUIRE_VERIFIED_EMAIL === "true"; // blocks unverified users from creating or joining communities
+export const MFA_ISSUER = process.env.NODE_MFA_ISSUER || "Community"; // shown in authenticator apps
+export const MFA_CHALLENGE_TTL = Number(process.env.NODE_MFA_CHALLENGE_TTL) || 5 * 60; // seconds
+export const MFA_RECOVERY_CODE_COUNT = 10;
+export const PLATFORM_ADMIN_EMAILS = (process.env.NODE_PLATFORM_ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean); // promoted to platform admin on startup
+export const DEFAULT_LOCALE = process.env.NODE_DEFAULT_LOCALE || "en"; // used when neither the user nor the request asks for a supported locale
+export const MAIL_TRANSPORT = process.env.NODE_MAIL_TRANSPORT || "console"; // "console" | "file"
+export const MAIL_FROM = process.env.NODE_MAIL_FROM || "no-reply@localhost";
+export const MAIL_FILE_DIR = process.env.NODE_MAIL_FILE_DIR || "mail";
+export const PASSWORD_RESET_TTL = Number(process.env.NODE_PASSWORD_RESET_TTL) || 60 * 60; // seconds
@@ -1 +1,7 @@
-export * from "./general";
\ No newline at end of file
+export * from "./general";
+export * from "./permissions";
+export * from "./password-policy";
+export * from "./signin";
+export * from "./profile";
+export * from "./pagination";
+export * from "./community";
\ No newline at end of file
@@ -0,0 +1,2 @@
+export const PAGE_SIZE_DEFAULT = Number(process.env.NODE_PAGE_SIZE_DEFAULT) || 10; // items per page when no limit is given
+export const PAGE_SIZE_MAX = Number(process.env.NODE_PAGE_SIZE_MAX) || 100; // largest limit a client may ask for
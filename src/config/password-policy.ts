@@ -0,0 +1,14 @@
+import path from "path";
+
+const flag = (value: string | undefined, fallback: boolean) =>
+  value === undefined ? fallback : value === "true";
+
+export const PASSWORD_MIN_LENGTH = Number(process.env.NODE_PASSWORD_MIN_LENGTH) || 8;
+export const PASSWORD_MAX_BYTES = 72; // bcrypt ignores everything past the first 72 bytes
+export const PASSWORD_REQUIRE_LOWERCASE = flag(process.env.NODE_PASSWORD_REQUIRE_LOWERCASE, true);
+export const PASSWORD_REQUIRE_UPPERCASE = flag(process.env.NODE_PASSWORD_REQUIRE_UPPERCASE, true);
+export const PASSWORD_REQUIRE_DIGIT = flag(process.env.NODE_PASSWORD_REQUIRE_DIGIT, true);
+export const PASSWORD_REQUIRE_SYMBOL = flag(process.env.NODE_PASSWORD_REQUIRE_SYMBOL, false);
+export const PASSWORD_DENYLIST_FILE =
+  process.env.NODE_PASSWORD_DENYLIST_FILE ||
+  path.resolve(__dirname, "../../data/common-passwords.txt");
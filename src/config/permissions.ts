@@ -0,0 +1,46 @@
+import { TPermission } from "../types";
+
+/**
+ * Every permission a role can carry. Used to validate role payloads and to
+ * build the built-in "Community Admin" role, which is granted all of them.
+ */
+export const PERMISSIONS: TPermission[] = [
+  "community:edit",
+  "community:delete",
+  "member:add",
+  "member:remove",
+  "member:approve",
+  "member:role",
+  "invite:manage",
+  "role:manage",
+];
+
+export const COMMUNITY_ADMIN = "Community Admin";
+export const COMMUNITY_MODERATOR = "Community Moderator";
+export const COMMUNITY_MEMBER = "Community Member";
+
+/**
+ * Roles with at least this priority are admin-level: only admin-level members may grant them,
+ * and a community always keeps at least one admin-level member.
+ */
+export const ADMIN_PRIORITY = 100;
+
+/**
+ * Roles with at least this priority are moderator-level, e.g. for communities requiring two-factor authentication.
+ */
+export const MODERATOR_PRIORITY = 50;
+
+/**
+ * Built-in roles seeded on startup together with the permissions they grant and their priority.
+ */
+export const DEFAULT_ROLES: Record<
+  string,
+  { permissions: TPermission[]; priority: number }
+> = {
+  [COMMUNITY_ADMIN]: { permissions: PERMISSIONS, priority: ADMIN_PRIORITY },
+  [COMMUNITY_MODERATOR]: {
+    permissions: ["member:remove", "member:approve"],
+    priority: MODERATOR_PRIORITY,
+  },
+  [COMMUNITY_MEMBER]: { permissions: [], priority: 0 },
+};
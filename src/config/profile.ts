@@ -0,0 +1,19 @@
+import { TProfileField } from "../types";
+
+/**
+ * Profile fields a user can choose to show on their public profile.
+ */
+export const PROFILE_FIELDS: TProfileField[] = [
+  "name",
+  "bio",
+  "avatar_url",
+  "timezone",
+  "locale",
+];
+
+/**
+ * Profile fields shown publicly until the user chooses otherwise.
+ */
+export const DEFAULT_PUBLIC_FIELDS: TProfileField[] = ["name"];
+
+export const BIO_MAX_LENGTH = 500;
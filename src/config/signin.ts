@@ -0,0 +1,7 @@
+export const SIGNIN_FREE_ATTEMPTS = Number(process.env.NODE_SIGNIN_FREE_ATTEMPTS) || 3; // failures before responses are delayed
+export const SIGNIN_DELAY_BASE_MS = Number(process.env.NODE_SIGNIN_DELAY_BASE_MS) || 500; // doubled with every further failure
+export const SIGNIN_DELAY_MAX_MS = Number(process.env.NODE_SIGNIN_DELAY_MAX_MS) || 8000;
+export const SIGNIN_ACCOUNT_MAX_FAILURES = Number(process.env.NODE_SIGNIN_ACCOUNT_MAX_FAILURES) || 10;
+export const SIGNIN_IP_MAX_FAILURES = Number(process.env.NODE_SIGNIN_IP_MAX_FAILURES) || 50;
+export const SIGNIN_FAILURE_WINDOW = Number(process.env.NODE_SIGNIN_FAILURE_WINDOW) || 15 * 60; // seconds
+export const SIGNIN_LOCKOUT = Number(process.env.NODE_SIGNIN_LOCKOUT) || 15 * 60; // seconds
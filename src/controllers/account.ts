@@ -0,0 +1,213 @@
+import { NextFunction, Request, Response } from "express";
+import { Op } from "@sequelize/core";
+import {
+  Community,
+  JoinRequest,
+  Member,
+  OwnershipTransfer,
+  RefreshToken,
+  SigninThrottle,
+  User,
+  UserSession,
+  UserToken,
+} from "../models";
+import { NonParametricError, ParametricError } from "../errors";
+import { comparePasswords } from "../utils";
+import { sequelize } from "../db";
+import { assertMfaCode } from "./mfa";
+
+/**
+ * Exports the data kept about the authenticated user.
+ * @param {Request} req - The request object containing the authenticated user's ID.
+ * @param {Response} res - The response object to send back the archive.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the archive, served as a file download.
+ * @description
+ *   - Collects the profile of the user, their memberships, owned communities, join requests and sessions.
+ *   - Leaves out secrets such as the password hash and two-factor secrets.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const exportMe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const userId = req.currentUser!.id;
+    const user = (await User.findByPk(userId))!;
+
+    const memberships = await Member.findAll({
+      where: { userId },
+      include: ["community", "role"],
+    });
+    const ownedCommunities = await Community.findAll({ where: { ownerId: userId } });
+    const joinRequests = await JoinRequest.findAll({ where: { userId } });
+    const sessions = await UserSession.findAll({ where: { userId } });
+
+    res.set(
+      "Content-Disposition",
+      `attachment; filename="account-${userId}.json"`
+    );
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          profile: {
+            id: user.id,
+            name: user.name,
+            email: user.email,
+            email_verified: Boolean(user.emailVerifiedAt),
+            pending_email: user.pendingEmail ?? null,
+            mfa_enabled: Boolean(user.mfaEnabledAt),
+            bio: user.bio ?? null,
+            avatar_url: user.avatarUrl ?? null,
+            timezone: user.timezone ?? null,
+            locale: user.locale ?? null,
+            public_fields: user.publicFields,
+            created_at: user.createdAt,
+            updated_at: user.updatedAt,
+          },
+          memberships: memberships.map((member) => ({
+            id: member.id,
+            community: member.community
+              ? {
+                  id: member.community.id,
+                  name: member.community.name,
+                  slug: member.community.slug,
+                }
+              : null,
+            role: member.role ? { id: member.role.id, name: member.role.name } : null,
+            created_at: member.createdAt,
+          })),
+          owned_communities: ownedCommunities.map((community) => ({
+            id: community.id,
+            name: community.name,
+            slug: community.slug,
+            visibility: community.visibility,
+            archived_at: community.archivedAt ?? null,
+            created_at: community.createdAt,
+          })),
+          join_requests: joinRequests.map((joinRequest) => ({
+            id: joinRequest.id,
+            community: joinRequest.communityId,
+            status: joinRequest.status,
+            created_at: joinRequest.createdAt,
+          })),
+          sessions: sessions.map((session) => ({
+            id: session.id,
+            user_agent: session.userAgent,
+            ip: session.ip,
+            last_seen_at: session.lastSeenAt,
+            revoked_at: session.revokedAt ?? null,
+            created_at: session.createdAt,
+          })),
+        },
+        meta: {
+          exported_at: new Date(),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deletes the account of the authenticated user.
+ * @param {Request} req - The request object containing the password of the user and, with two-factor authentication,
+ *   a code.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the deletion.
+ * @description
+ *   - Throws a ParametricError if the password is wrong, or if two-factor authentication is enabled and the code is
+ *     missing or not accepted; failed codes count towards the lockout of the account's signins.
+ *   - Throws a NonParametricError while the user still owns communities; they have to be transferred or deleted first.
+ *   - Throws a NonParametricError while the user is the last admin of a community, which would be left without one.
+ *   - Removes, inside a single transaction, the memberships and join requests of the user, cancels the
+ *     ownership transfers offered to them and deletes their sessions, refresh tokens and mailed tokens.
+ *   - Anonymizes the user rather than deleting it, so audit log entries and invites referring to it stay intact.
+ *   - Clears the session.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const deleteMe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const userId = req.currentUser!.id;
+    const user = (await User.findByPk(userId))!;
+
+    if (!(await comparePasswords(req.body.password, user.password))) {
+      throw new ParametricError([
+        {
+          param: "password",
+          message: "The credentials you provided are invalid.",
+          code: "INVALID_CREDENTIALS",
+        },
+      ]);
+    }
+
+    if (user.mfaEnabledAt) {
+      if (!req.body.code) {
+        throw new ParametricError([
+          {
+            param: "code",
+            message: "Please provide a code from your authenticator app or a recovery code.",
+            code: "INVALID_INPUT",
+          },
+        ]);
+      }
+      await assertMfaCode(res, user, req.body.code);
+    }
+
+    const ownedCount = await Community.count({ where: { ownerId: userId } });
+    if (ownedCount > 0) {
+      throw new NonParametricError([
+        {
+          message: "Transfer or delete the communities you own before deleting your account.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+    const memberships = await Member.findAll({ where: { userId }, include: ["role"] });
+    for (const membership of memberships) {
+      if (await membership.isLastAdmin()) {
+        throw new NonParametricError([
+          {
+            message: "Appoint another admin where you are the last one before deleting your account.",
+            code: "NOT_ALLOWED_ACCESS",
+          },
+        ]);
+      }
+    }
+
+    const email = user.email;
+    await sequelize.transaction(async () => {
+      await Member.destroy({ where: { userId } });
+      await JoinRequest.destroy({ where: { userId } });
+      await OwnershipTransfer.update(
+        { status: "cancelled", respondedAt: new Date() },
+        {
+          where: {
+            status: "pending",
+            [Op.or]: [{ toUserId: userId }, { fromUserId: userId }],
+          },
+        }
+      );
+      await RefreshToken.destroy({ where: { userId } });
+      await UserSession.destroy({ where: { userId } });
+      await UserToken.destroy({ where: { userId } });
+      await user.anonymize();
+    });
+    await SigninThrottle.clear(SigninThrottle.accountKey(email));
+    req.session = null;
+
+    return res
+      .status(200)
+      .json({ status: true, content: { message: "Account deleted!" } });
+  } catch (error) {
+    next(error);
+  }
+};
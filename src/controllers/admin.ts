@@ -0,0 +1,334 @@
+import { NextFunction, Request, Response } from "express";
+import { Op, WhereOptions } from "@sequelize/core";
+import { AuditLog, Community, SigninThrottle, User } from "../models";
+import { NonParametricError, ParametricError } from "../errors";
+import { containsPattern, pageMeta, paginate, readPageRequest } from "../utils";
+
+/**
+ * Finds the user targeted by an admin action.
+ * @param {Request} req - The request object containing the user ID in the params.
+ * @returns {Promise<User>} - The user.
+ * @throws {ParametricError} - Throws a ParametricError if the user does not exist.
+ */
+const findTargetUser = async (req: Request): Promise<User> => {
+  const user = await User.findByPk(req.params.id);
+  if (!user) {
+    throw new ParametricError([
+      {
+        param: "user",
+        message: "User not found.",
+        code: "RESOURCE_NOT_FOUND",
+      },
+    ]);
+  }
+  return user;
+};
+
+/**
+ * Makes sure an admin does not suspend or ban themselves.
+ * @param {Request} req - The request object containing the authenticated user's ID.
+ * @param {User} user - The targeted user.
+ * @throws {NonParametricError} - Throws a NonParametricError if the admin targets their own account.
+ */
+const assertNotSelf = (req: Request, user: User): void => {
+  if (user.id === req.currentUser!.id) {
+    throw new NonParametricError([
+      {
+        message: "You cannot perform this action on your own account.",
+        code: "NOT_ALLOWED_ACCESS",
+      },
+    ]);
+  }
+};
+
+/**
+ * Formats a user for the admin endpoints, including its moderation state.
+ * @param {User} user - The user.
+ * @returns {object} - The user details.
+ */
+const toAdminUser = (user: User) => ({
+  id: user.id,
+  name: user.name,
+  email: user.email,
+  is_platform_admin: Boolean(user.isPlatformAdmin),
+  email_verified: Boolean(user.emailVerifiedAt),
+  suspended_until: user.suspendedUntil ?? null,
+  banned_at: user.bannedAt ?? null,
+  suspension_reason: user.suspensionReason ?? null,
+  deleted_at: user.deletedAt ?? null,
+  created_at: user.createdAt,
+});
+
+/**
+ * Lists and searches the users of the platform.
+ * @param {Request} req - The request object containing the search query, status filter, page size and cursor.
+ * @param {Response} res - The response object to send back the users.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the users and pagination metadata.
+ * @description
+ *   - Matches 'q' against the name and email of the users, ignoring case.
+ *   - Filters on 'status': active, suspended or banned users.
+ *   - Returns a page of users, 10 by default and newest first, with the total count, the page size and links to the
+ *     next and previous pages.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const listUsers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const pageRequest = readPageRequest(req);
+
+    const conditions: WhereOptions<User>[] = [];
+    const q = (req.query.q as string | undefined)?.trim();
+    if (q) {
+      const pattern = containsPattern(q);
+      conditions.push({
+        [Op.or]: [{ name: { [Op.iLike]: pattern } }, { email: { [Op.iLike]: pattern } }],
+      });
+    }
+    const now = new Date();
+    switch (req.query.status) {
+      case "active":
+        conditions.push({
+          bannedAt: null,
+          [Op.or]: [{ suspendedUntil: null }, { suspendedUntil: { [Op.lte]: now } }],
+        });
+        break;
+      case "suspended":
+        conditions.push({ bannedAt: null, suspendedUntil: { [Op.gt]: now } });
+        break;
+      case "banned":
+        conditions.push({ bannedAt: { [Op.ne]: null } });
+        break;
+    }
+    const where = { [Op.and]: conditions };
+
+    const page = await paginate(User, where, pageRequest, { direction: "DESC" });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        meta: pageMeta(req, page, pageRequest),
+        data: page.rows.map(toAdminUser),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lifts the signin lockout of a user.
+ * @param {Request} req - The request object containing the user ID in the params.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the unlock.
+ * @description
+ *   - Throws a ParametricError if the user does not exist.
+ *   - Clears the failed signin attempts and lockout of the user's account and of the IP addresses that failed on it.
+ *   - Records the unlock in the audit log.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const unlockUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await findTargetUser(req);
+
+    await SigninThrottle.unlockAccount(user.email);
+    await AuditLog.record({
+      actorId: req.currentUser!.id,
+      action: "user.unlocked",
+      targetId: user.id,
+    });
+
+    return res
+      .status(200)
+      .json({ status: true, content: { message: "User unlocked!" } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Suspends or bans a user.
+ * @param {boolean} ban - Whether the returned handler bans the user for good (true) or suspends them until a date (false).
+ * @returns {Function} - An Express handler moderating the user in the request parameters.
+ * @description
+ *   - Throws a ParametricError if the user does not exist, and a NonParametricError if the admin targets themselves
+ *     or another platform admin.
+ *   - Stores the ban, or the end of the suspension from 'until', along with the optional 'reason'.
+ *   - Signs the user out everywhere; until lifted, signin and their tokens are rejected.
+ *   - Records the action in the audit log and returns the user's moderation state.
+ */
+const moderateUser =
+  (ban: boolean) =>
+  async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<Response | undefined> => {
+    try {
+      const user = await findTargetUser(req);
+      assertNotSelf(req, user);
+      if (user.isPlatformAdmin) {
+        throw new NonParametricError([
+          {
+            message: "Platform admins cannot be suspended or banned.",
+            code: "NOT_ALLOWED_ACCESS",
+          },
+        ]);
+      }
+
+      const { until, reason } = req.body;
+      await user.update(
+        ban
+          ? { bannedAt: new Date(), suspensionReason: reason ?? null }
+          : { suspendedUntil: new Date(until), suspensionReason: reason ?? null }
+      );
+      await user.revokeAllTokens();
+      await AuditLog.record({
+        actorId: req.currentUser!.id,
+        action: ban ? "user.banned" : "user.suspended",
+        targetId: user.id,
+        data: ban ? { reason: reason ?? null } : { until, reason: reason ?? null },
+      });
+
+      return res.status(200).json({
+        status: true,
+        content: {
+          data: toAdminUser(user),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const suspendUser = moderateUser(false);
+export const banUser = moderateUser(true);
+
+/**
+ * Lifts the suspension or ban of a user.
+ * @param {Request} req - The request object containing the user ID in the params.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the user's moderation state.
+ * @description
+ *   - Throws a ParametricError if the user does not exist.
+ *   - Clears the suspension, the ban and their reason.
+ *   - Records the action in the audit log.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const reinstateUser = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await findTargetUser(req);
+
+    await user.update({ suspendedUntil: null, bannedAt: null, suspensionReason: null });
+    await AuditLog.record({
+      actorId: req.currentUser!.id,
+      action: "user.reinstated",
+      targetId: user.id,
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: toAdminUser(user),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Signs a user out of every session.
+ * @param {Request} req - The request object containing the user ID in the params.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the signout.
+ * @description
+ *   - Throws a ParametricError if the user does not exist.
+ *   - Rejects every access token issued so far and revokes all sessions and refresh tokens of the user.
+ *   - Records the action in the audit log.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const signoutUserEverywhere = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await findTargetUser(req);
+
+    await user.revokeAllTokens();
+    await AuditLog.record({
+      actorId: req.currentUser!.id,
+      action: "user.signed_out",
+      targetId: user.id,
+    });
+
+    return res
+      .status(200)
+      .json({ status: true, content: { message: "User logged out everywhere!" } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Permanently deletes an abusive community, whoever owns it.
+ * @param {Request} req - The request object containing the community ID in the params and an optional reason.
+ * @param {Response} res - The response object to send back the status of the deletion.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with status true upon successful deletion.
+ * @description
+ *   - Throws a ParametricError if the community does not exist.
+ *   - Records the deletion in the audit log, keeping the name, slug and owner of the community.
+ *   - Deletes the community together with its members, roles and other records.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const forceDeleteCommunity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const community = await Community.findByPk(req.params.communityId);
+    if (!community) {
+      throw new ParametricError([
+        {
+          param: "community",
+          message: "Community not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    await AuditLog.record({
+      actorId: req.currentUser!.id,
+      action: "community.force_deleted",
+      communityId: community.id,
+      data: {
+        name: community.name,
+        slug: community.slug,
+        owner_id: community.ownerId,
+        reason: req.body?.reason ?? null,
+      },
+    });
+    await community.destroyWithDependents();
+
+    return res.status(200).json({ status: true });
+  } catch (error) {
+    next(error);
+  }
+};
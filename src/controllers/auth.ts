@@ -1,10 +1,65 @@
 import { NextFunction, Request, Response } from "express";
-import { User } from "../models";
+import { setTimeout as sleep } from "timers/promises";
+import { RefreshToken, RevokedToken, SigninThrottle, User, UserSession } from "../models";
 import { Snowflake } from "@theinternetfolks/snowflake";
 import { UserPayloadForJwt } from "../interfaces";
-import { comparePasswords, encryptSession } from "../utils";
+import { DUMMY_PASSWORD_HASH, comparePasswords, decryptMfaChallenge, encryptMfaChallenge, encryptSession, readSessionId, readToken } from "../utils";
 import { NonParametricError, ParametricError } from "../errors";
+import {
+  ACCESS_TOKEN_TTL,
+  MFA_CHALLENGE_TTL,
+  SIGNIN_ACCOUNT_MAX_FAILURES,
+  SIGNIN_DELAY_BASE_MS,
+  SIGNIN_DELAY_MAX_MS,
+  SIGNIN_FREE_ATTEMPTS,
+  SIGNIN_IP_MAX_FAILURES,
+} from "../config";
 
+/**
+ * Starts a session for a user by recording the device and issuing an access token and a refresh token.
+ * @param {Request} req - The request object, whose user agent and IP are recorded and whose cookie session receives both tokens.
+ * @param {string} userId - The ID of the user signing in.
+ * @returns {Promise<{ access_token: string; refresh_token: string; expires_in: number }>} - The tokens, to be returned in the response meta.
+ */
+const startSession = async (req: Request, userId: string) => {
+  const session = await UserSession.create({
+    id: Snowflake.generate(),
+    userId,
+    userAgent: req.get("user-agent")?.slice(0, 512) ?? null,
+    ip: req.ip ?? null,
+  });
+  const payload: UserPayloadForJwt = {
+    id: userId,
+    sid: session.id,
+  };
+  const encSession = encryptSession(payload);
+  const { token: refreshToken } = await RefreshToken.issue(userId, session.id);
+  req.session = {
+    jwt: encSession,
+    refresh: refreshToken,
+  };
+
+  return {
+    access_token: encSession,
+    refresh_token: refreshToken,
+    expires_in: ACCESS_TOKEN_TTL,
+  };
+};
+
+/**
+ * Computes how long to hold back a signin attempt, doubling with every failure past the free attempts.
+ * @param {number} failures - The recent failures of the account or IP address.
+ * @returns {number} - The delay in milliseconds.
+ */
+const signinDelay = (failures: number): number => {
+  if (failures < SIGNIN_FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(
+    SIGNIN_DELAY_BASE_MS * 2 ** (failures - SIGNIN_FREE_ATTEMPTS),
+    SIGNIN_DELAY_MAX_MS
+  );
+};
 
 /**
  * Handles user signup by creating a new user and generating a JWT token.
@@ -17,10 +72,9 @@ import { NonParametricError, ParametricError } from "../errors";
  *   - Generates a unique ID using Snowflake.
  *   - Checks if a user with the provided email already exists.
  *   - If the user exists, throws a ParametricError.
- *   - Creates a new user with the provided details.
- *   - Generates a JWT payload with the new user ID.
- *   - Encrypts the JWT and sets it in the session.
- *   - Returns a JSON response with user details and access token.
+ *   - Creates a new user with the provided details and mails them a token to verify their email address.
+ *   - Issues an access token and a refresh token and sets them in the session.
+ *   - Returns a JSON response with user details and both tokens.
  *   - Catches any errors and passes them to the next middleware.
  */
 export const signupUser = async (
@@ -53,14 +107,9 @@ export const signupUser = async (
       email,
       password,
     });
+    await user.requestEmailVerification();
 
-    const payload: UserPayloadForJwt = {
-      id: user.id,
-    };
-    const encSession = encryptSession(payload);
-    req.session = {
-      jwt: encSession,
-    };
+    const tokens = await startSession(req, user.id);
 
     return res.status(200).json({
       status: true,
@@ -71,9 +120,7 @@ export const signupUser = async (
           email: user.email,
           created_at: user.createdAt,
         },
-        meta: {
-          access_token: encSession,
-        },
+        meta: tokens,
       },
     });
   } catch (error) {
@@ -81,17 +128,32 @@ export const signupUser = async (
   }
 };
 
-
+/**
+ * Finds the session a request signs out of when its access token can no longer be used, e.g. because it expired.
+ * @param {Request} req - The request object potentially containing a refresh token or an expired access token.
+ * @returns {Promise<string | undefined>} - The ID of the session, from the refresh token or else from the access token.
+ */
+const presentedSessionId = async (req: Request): Promise<string | undefined> => {
+  const refreshToken = req.body?.refresh_token ?? req.session?.refresh;
+  const sessionId = refreshToken ? await RefreshToken.sessionIdOf(refreshToken) : undefined;
+  if (sessionId) {
+    return sessionId;
+  }
+  const token = readToken(req);
+  return token ? readSessionId(token) : undefined;
+};
 
 /**
- * Handles user signout by clearing the session.
+ * Handles user signout by revoking its tokens and clearing the session.
  * @param {Request} req - The request object.
  * @param {Response} res - The response object to send back the response.
  * @param {NextFunction} next - The next middleware function in the chain.
  * @returns {Promise<Response | undefined>} - Returns a JSON response confirming signout.
  * @description
- *   - Checks if the session is populated.
- *   - If the session is not populated, throws a NonParametricError.
+ *   - Signs out of the session of the access token, or if it is expired or invalid, of the session of the
+ *     refresh token in the 'refresh_token' body field or the session, or of the expired access token.
+ *   - If no session is found, throws a NonParametricError.
+ *   - Revokes the session, which also revokes its refresh tokens, and adds a valid access token to the revocation list.
  *   - Clears the session.
  *   - Returns a JSON response confirming the user is logged out.
  *   - Catches any errors and passes them to the next middleware.
@@ -102,11 +164,18 @@ export const signoutUser = async (
   next: NextFunction
 ): Promise<Response | undefined> => {
   try {
-    if (!req.session?.isPopulated) {
+    const sessionId = req.currentUser?.sid ?? (await presentedSessionId(req));
+    if (!sessionId) {
       throw new NonParametricError([
         { message: "You need to sign in to proceed.", code: "NOT_SIGNEDIN" },
       ]);
     }
+
+    if (req.currentUser) {
+      await RevokedToken.revoke(req.currentUser.jti, req.currentUser.exp);
+    }
+    const session = await UserSession.findByPk(sessionId);
+    await session?.revoke();
     req.session = null;
 
     return res
@@ -117,8 +186,6 @@ export const signoutUser = async (
   }
 };
 
-
-
 /**
  * Handles user signin by verifying credentials and generating a JWT token.
  * @param {Request} req - The request object containing user email and password.
@@ -127,13 +194,18 @@ export const signoutUser = async (
  * @returns {Promise<Response | undefined>} - Returns a JSON response with user details and JWT token.
  * @description
  *   - Extracts email and password from the request body.
- *   - Searches for a user with the provided email.
- *   - If the user is not found, throws a ParametricError.
- *   - Compares the provided password with the stored hashed password.
- *   - If the passwords do not match, throws a ParametricError.
- *   - Generates a JWT payload with the user ID.
- *   - Encrypts the JWT and sets it in the session.
- *   - Returns a JSON response with user details and access token.
+ *   - Throws a NonParametricError if the account or the IP address is locked out.
+ *   - Delays the attempt progressively after repeated failures.
+ *   - Searches for a user with the provided email and compares the password with the stored hash,
+ *     or with a dummy hash if there is no such user so both cases take as long.
+ *   - If the user is not found or the passwords do not match, records the failure for the account and
+ *     the IP address and throws the same ParametricError in both cases.
+ *   - Clears the failures of the account on success.
+ *   - Throws a NonParametricError if the user is banned or suspended.
+ *   - If the user enabled two-factor authentication, returns a short-lived challenge token instead of a session,
+ *     to be completed at /v1/auth/mfa/verify.
+ *   - Issues an access token and a refresh token and sets them in the session.
+ *   - Returns a JSON response with user details and both tokens.
  *   - Catches any errors and passes them to the next middleware.
  */
 export const signinUser = async (
@@ -143,24 +215,35 @@ export const signinUser = async (
 ): Promise<Response | undefined> => {
   try {
     const { email, password } = req.body;
+    const accountKey = SigninThrottle.accountKey(email);
+    const address = req.ip ?? "unknown";
+    const ipKey = SigninThrottle.ipKey(address);
+
+    const { lockedUntil, failures } = await SigninThrottle.assess([accountKey, ipKey]);
+    if (lockedUntil) {
+      res.set("Retry-After", String(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)));
+      throw new NonParametricError([
+        {
+          message: "Too many failed sign in attempts. Please try again later.",
+          code: "TOO_MANY_ATTEMPTS",
+        },
+      ]);
+    }
+    await sleep(signinDelay(failures));
 
     const user = await User.findOne({
       where: {
         email,
       },
     });
-    if (!user) {
-      throw new ParametricError([
-        {
-          param: "user",
-          message: "User not found.",
-          code: "RESOURCE_NOT_FOUND",
-        },
-      ]);
-    }
-    const isMatched = await comparePasswords(password, user.password);
+    const isMatched = await comparePasswords(
+      password,
+      user?.password ?? DUMMY_PASSWORD_HASH
+    );
 
-    if (!isMatched) {
+    if (!user || !isMatched) {
+      await SigninThrottle.recordFailure(accountKey, SIGNIN_ACCOUNT_MAX_FAILURES, address);
+      await SigninThrottle.recordFailure(ipKey, SIGNIN_IP_MAX_FAILURES);
       throw new ParametricError([
         {
           param: "password",
@@ -170,13 +253,29 @@ export const signinUser = async (
       ]);
     }
 
-    const payload: UserPayloadForJwt = {
-      id: String(user.id),
-    };
-    const encSession = encryptSession(payload);
-    req.session = {
-      jwt: encSession,
-    };
+    await SigninThrottle.clear(accountKey);
+    if (user.isSuspended()) {
+      throw new NonParametricError([
+        { ...user.suspensionMessage(), code: "ACCOUNT_SUSPENDED" },
+      ]);
+    }
+
+    if (user.mfaEnabledAt) {
+      return res.status(200).json({
+        status: true,
+        content: {
+          data: {
+            mfa_required: true,
+          },
+          meta: {
+            mfa_token: encryptMfaChallenge(user.id),
+            expires_in: MFA_CHALLENGE_TTL,
+          },
+        },
+      });
+    }
+
+    const tokens = await startSession(req, String(user.id));
 
     return res.status(200).json({
       status: true,
@@ -187,9 +286,7 @@ export const signinUser = async (
           email: user.email,
           created_at: user.createdAt,
         },
-        meta: {
-          access_token: encSession,
-        },
+        meta: tokens,
       },
     });
   } catch (error) {
@@ -197,8 +294,83 @@ export const signinUser = async (
   }
 };
 
+/**
+ * Completes a signin of a user with two-factor authentication.
+ * @param {Request} req - The request object containing the challenge token returned by signin and a two-factor code.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with user details and JWT token.
+ * @description
+ *   - Decrypts the challenge token; throws a NonParametricError if it expired or is invalid.
+ *   - Throws a NonParametricError if the account is locked out.
+ *   - Checks the TOTP or recovery code; if it is not accepted, records the failure for the account and throws a ParametricError.
+ *   - Throws a NonParametricError if the user is banned or suspended.
+ *   - Issues an access token and a refresh token and sets them in the session.
+ *   - Returns a JSON response with user details and both tokens.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const verifyMfa = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { mfa_token, code } = req.body;
+
+    const user = await User.findByPk(decryptMfaChallenge(mfa_token));
+    if (!user?.mfaEnabledAt) {
+      throw new NonParametricError([
+        { message: "Your sign in challenge is invalid.", code: "INVALID_TOKEN" },
+      ]);
+    }
+
+    const accountKey = SigninThrottle.accountKey(user.email);
+    const { lockedUntil } = await SigninThrottle.assess([accountKey]);
+    if (lockedUntil) {
+      res.set("Retry-After", String(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)));
+      throw new NonParametricError([
+        {
+          message: "Too many failed sign in attempts. Please try again later.",
+          code: "TOO_MANY_ATTEMPTS",
+        },
+      ]);
+    }
+
+    if (!(await user.verifyMfaCode(code))) {
+      await SigninThrottle.recordFailure(accountKey, SIGNIN_ACCOUNT_MAX_FAILURES);
+      throw new ParametricError([
+        {
+          param: "code",
+          message: "The code you provided is invalid.",
+          code: "INVALID_CREDENTIALS",
+        },
+      ]);
+    }
 
+    await SigninThrottle.clear(accountKey);
+    if (user.isSuspended()) {
+      throw new NonParametricError([
+        { ...user.suspensionMessage(), code: "ACCOUNT_SUSPENDED" },
+      ]);
+    }
+    const tokens = await startSession(req, user.id);
 
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: user.id,
+          name: user.name,
+          email: user.email,
+          created_at: user.createdAt,
+        },
+        meta: tokens,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
 
 /**
  * Retrieves the authenticated user's details.
@@ -249,6 +421,14 @@ export const getMe = async (
           id: user.id,
           name: user.name,
           email: user.email,
+          email_verified: Boolean(user.emailVerifiedAt),
+          pending_email: user.pendingEmail ?? null,
+          mfa_enabled: Boolean(user.mfaEnabledAt),
+          bio: user.bio ?? null,
+          avatar_url: user.avatarUrl ?? null,
+          timezone: user.timezone ?? null,
+          locale: user.locale ?? null,
+          public_fields: user.publicFields,
           created_at: user.createdAt,
         },
       },
@@ -257,3 +437,174 @@ export const getMe = async (
     next(error);
   }
 };
+
+/**
+ * Exchanges a refresh token for a new access token and a new refresh token.
+ * @param {Request} req - The request object containing the refresh token in the session or the request body.
+ * @param {Response} res - The response object to send back the new tokens.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the new tokens.
+ * @description
+ *   - Reads the refresh token from the 'refresh_token' body field, falling back to the session.
+ *   - Rotates the refresh token: the presented token is revoked and a new one is issued.
+ *   - Throws a NonParametricError if the token is unknown, expired or revoked, or its session was revoked.
+ *   - Issues a new access token and sets both tokens in the session.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const refreshSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const presented = req.body?.refresh_token ?? req.session?.refresh;
+    const rotated = presented ? await RefreshToken.rotate(presented) : null;
+    const session = rotated
+      ? await UserSession.findByPk(rotated.record.sessionId)
+      : null;
+    if (!rotated || !session || session.revokedAt) {
+      throw new NonParametricError([
+        { message: "You need to sign in to proceed.", code: "NOT_SIGNEDIN" },
+      ]);
+    }
+
+    const encSession = encryptSession({
+      id: rotated.record.userId,
+      sid: session.id,
+    });
+    req.session = {
+      jwt: encSession,
+      refresh: rotated.token,
+    };
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        meta: {
+          access_token: encSession,
+          refresh_token: rotated.token,
+          expires_in: ACCESS_TOKEN_TTL,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Signs the authenticated user out of every session.
+ * @param {Request} req - The request object containing the authenticated user's ID.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming signout.
+ * @description
+ *   - Rejects every access token issued so far and revokes all sessions and refresh tokens of the user.
+ *   - Clears the session.
+ */
+export const signoutEverywhere = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await User.findByPk(req.currentUser!.id);
+    await user!.revokeAllTokens();
+    req.session = null;
+
+    return res
+      .status(200)
+      .json({ status: true, content: { message: "Logged out everywhere!" } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Lists the active sessions of the authenticated user.
+ * @param {Request} req - The request object containing the authenticated user's ID.
+ * @param {Response} res - The response object to send back the sessions.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the sessions.
+ * @description
+ *   - Retrieves the sessions of the user that have not been revoked, most recently used first.
+ *   - Flags the session the request was made with as current.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const getSessions = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const sessions = await UserSession.findAll({
+      where: { userId: req.currentUser!.id, revokedAt: null },
+      order: [["lastSeenAt", "DESC"]],
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: sessions.map((session) => ({
+          id: session.id,
+          user_agent: session.userAgent,
+          ip: session.ip,
+          current: session.id === req.currentUser!.sid,
+          last_seen_at: session.lastSeenAt,
+          created_at: session.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revokes one session of the authenticated user, signing that device out.
+ * @param {Request} req - The request object containing the session ID in the params.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the revocation.
+ * @description
+ *   - Looks up the session among the user's sessions that have not been revoked.
+ *   - If it is not found, throws a ParametricError.
+ *   - Revokes the session and its refresh tokens; its access tokens are rejected from then on.
+ *   - Clears the cookie session if the current session was revoked.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const revokeSession = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const session = await UserSession.findOne({
+      where: {
+        id: req.params.id,
+        userId: req.currentUser!.id,
+        revokedAt: null,
+      },
+    });
+    if (!session) {
+      throw new ParametricError([
+        {
+          param: "id",
+          message: "Session not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    await session.revoke();
+    if (session.id === req.currentUser!.sid) {
+      req.session = null;
+    }
+
+    return res
+      .status(200)
+      .json({ status: true, content: { message: "Session revoked!" } });
+  } catch (error) {
+    next(error);
+  }
+};
\ No newline at end of file
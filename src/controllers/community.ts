@@ -1,9 +1,13 @@
 import { NextFunction, Request, Response } from "express";
-import { Community, Member, Role, User } from "../models";
+import { Community, CommunitySlug, Member, Role, User } from "../models";
 import { Snowflake } from "@theinternetfolks/snowflake";
-import { ParametricError } from "../errors";
-import { Op } from "@sequelize/core";
-
+import { NonParametricError, ParametricError } from "../errors";
+import { Op, UniqueConstraintError, WhereOptions, sql } from "@sequelize/core";
+import { COMMUNITY_ADMIN, DEFAULT_COMMUNITY_SORT } from "../config";
+import { sequelize } from "../db";
+import { containsPattern, pageMeta, paginate, readPageRequest } from "../utils";
+import { PageSortKey } from "../interfaces";
+import { TCommunitySort, TCommunityVisibility } from "../types";
 
 /**
  * Creates a new community with the authenticated user as the owner.
@@ -15,10 +19,9 @@ import { Op } from "@sequelize/core";
  *   - Retrieves the authenticated user's ID from the request.
  *   - Finds the user in the database based on the authenticated user's ID.
  *   - If the user is not found, throws a ParametricError.
- *   - Extracts the community name from the request body and generates a unique ID using Snowflake.
- *   - Creates a new community record in the database with the provided details.
- *   - Generates a slug for the community based on its name.
- *   - Checks if a "Community Admin" role exists; if not, creates it.
+ *   - Extracts the community name and optional visibility from the request body and generates a unique ID using Snowflake.
+ *   - Creates a new community record in the database with the provided details, under a unique slug based on its name.
+ *   - Retrieves the built-in "Community Admin" role, creating it if needed.
  *   - Adds the authenticated user as a member with "Community Admin" role to the newly created community.
  *   - Returns a JSON response with the newly created community's details.
  *   - Catches any errors and passes them to the next middleware.
@@ -40,27 +43,16 @@ export const createCommunity = async (
         },
       ]);
     }
-    const { name } = req.body;
+    const { name, visibility } = req.body;
     const id = Snowflake.generate();
-    const community = await Community.create({
+    const community = await Community.createWithSlug({
       name,
       id,
-      slug: name.toLowerCase().replace(/[\s\W-]+/g, "-"),
+      visibility,
       ownerId: userId,
     });
 
-    let role = await Role.findOne({
-      where: {
-        name: "Community Admin",
-      },
-    });
-
-    if (!role) {
-      role = await Role.create({
-        name: "Community Admin",
-        id: Snowflake.generate(),
-      });
-    }
+    const role = await Role.getDefault(COMMUNITY_ADMIN);
 
     const member = await Member.create({
       id: Snowflake.generate(),
@@ -76,6 +68,7 @@ export const createCommunity = async (
           id: community.id,
           name: community.name,
           slug: community.slug,
+          visibility: community.visibility,
           owner: community.ownerId,
           created_at: community.createdAt,
           updated_at: community.updatedAt,
@@ -87,19 +80,22 @@ export const createCommunity = async (
   }
 };
 
-
-
 /**
- * Retrieves paginated list of all communities.
- * @param {Request} req - The request object containing optional pagination parameters.
+ * Retrieves paginated list of all listed communities, i.e. those neither hidden nor archived.
+ * @param {Request} req - The request object containing optional search, filter, sort and pagination parameters.
  * @param {Response} res - The response object to send back the list of communities.
  * @param {NextFunction} next - The next middleware function in the chain.
  * @returns {Promise<Response | undefined>} - Returns a JSON response with paginated list of communities.
  * @description
- *   - Parses the 'page' query parameter from the request; defaults to page 1 if not provided.
- *   - Retrieves a paginated list of communities from the database, limited to 10 communities per page.
- *   - Calculates the total number of communities available.
- *   - Returns a JSON response with metadata including total number of communities, total pages, and current page.
+ *   - Reads the 'limit' and 'cursor' query parameters from the request; defaults to the first page of 10 communities.
+ *   - Matches 'q' against the name and slug of the communities, ignoring case.
+ *   - Filters on 'owner', 'visibility', the 'created_after' and 'created_before' dates and the 'min_members' and
+ *     'max_members' member counts.
+ *   - Sorts by 'sort': creation (the default), name or member count, descending when prefixed with "-".
+ *   - Retrieves a page of matching communities from the database, each with its member count.
+ *   - Calculates the total number of matching communities.
+ *   - Returns a JSON response with metadata including the total number of communities, the page size and links to the
+ *     next and previous pages.
  *   - Catches any errors and passes them to the next middleware.
  */
 export const getAllCommunities = async (
@@ -108,26 +104,78 @@ export const getAllCommunities = async (
   next: NextFunction
 ): Promise<Response | undefined> => {
   try {
-    let page = Number(req.query.page);
-    if (!page) {
-      page = 1;
+    const pageRequest = readPageRequest(req);
+
+    const conditions: WhereOptions<Community>[] = [
+      {
+        archivedAt: null,
+        visibility: {
+          [Op.ne]: "hidden" as const,
+        },
+      },
+    ];
+    const q = (req.query.q as string | undefined)?.trim();
+    if (q) {
+      const pattern = containsPattern(q);
+      conditions.push({
+        [Op.or]: [{ name: { [Op.iLike]: pattern } }, { slug: { [Op.iLike]: pattern } }],
+      });
+    }
+    if (req.query.owner) {
+      conditions.push({ ownerId: req.query.owner as string });
+    }
+    if (req.query.visibility) {
+      conditions.push({ visibility: req.query.visibility as TCommunityVisibility });
+    }
+    if (req.query.created_after) {
+      conditions.push({ createdAt: { [Op.gte]: new Date(req.query.created_after as string) } });
+    }
+    if (req.query.created_before) {
+      conditions.push({ createdAt: { [Op.lt]: new Date(req.query.created_before as string) } });
+    }
+    if (req.query.min_members) {
+      conditions.push(sql.where(Community.memberCount(), Op.gte, Number(req.query.min_members)));
+    }
+    if (req.query.max_members) {
+      conditions.push(sql.where(Community.memberCount(), Op.lte, Number(req.query.max_members)));
     }
 
-    const roles = await Community.findAll({
-      limit: 10,
-      offset: Number(page) <= 1 ? 0 : (Number(page) - 1) * 10,
+    const sort = (req.query.sort as TCommunitySort | undefined) ?? DEFAULT_COMMUNITY_SORT;
+    const sortKeys: Record<string, PageSortKey<Community> | undefined> = {
+      name: {
+        name: "name",
+        type: "string",
+        expression: sql.col("name"),
+        value: (community) => community.name,
+      },
+      members: {
+        name: "members",
+        type: "number",
+        expression: Community.memberCount(),
+        value: (community) => community.getMemberCount() ?? 0,
+      },
+    };
+    const where = { [Op.and]: conditions };
+    const page = await paginate(Community, where, pageRequest, {
+      direction: sort.startsWith("-") ? "DESC" : "ASC",
+      sortKey: sortKeys[sort.replace(/^-/, "")],
+      attributes: { include: [[Community.memberCount(), "memberCount"]] },
     });
 
-    const total = await Community.count();
     return res.status(200).json({
       status: true,
       content: {
-        meta: {
-          total: total,
-          pages: Math.ceil(total / 10),
-          page: page <= 1 ? 1 : page,
-        },
-        data: [...roles],
+        meta: pageMeta(req, page, pageRequest),
+        data: page.rows.map((community) => ({
+          id: community.id,
+          name: community.name,
+          slug: community.slug,
+          visibility: community.visibility,
+          owner: community.ownerId,
+          member_count: community.getMemberCount() ?? 0,
+          created_at: community.createdAt,
+          updated_at: community.updatedAt,
+        })),
       },
     });
   } catch (error) {
@@ -135,8 +183,6 @@ export const getAllCommunities = async (
   }
 };
 
-
-
 /**
  * Retrieves paginated list of communities owned by the authenticated user.
  * @param {Request} req - The request object containing the authenticated user's ID and optional pagination parameters.
@@ -145,11 +191,11 @@ export const getAllCommunities = async (
  * @returns {Promise<Response | undefined>} - Returns a JSON response with paginated list of owned communities.
  * @description
  *   - Retrieves the authenticated user's ID from the request.
- *   - Parses the 'page' query parameter from the request; defaults to page 1 if not provided.
- *   - Counts the total number of communities owned by the authenticated user.
- *   - Retrieves a paginated list of communities owned by the authenticated user from the database,
- *     limited to 10 communities per page.
- *   - Returns a JSON response with metadata including total number of owned communities, total pages, and current page.
+ *   - Reads the 'limit' and 'cursor' query parameters from the request; defaults to the first page of 10 communities.
+ *   - Retrieves a page of communities owned by the authenticated user from the database, oldest first,
+ *     and counts them all.
+ *   - Returns a JSON response with metadata including the total number of owned communities, the page size and links
+ *     to the next and previous pages.
  *   - Catches any errors and passes them to the next middleware.
  */
 export const getMyOwnedCommunities = async (
@@ -159,29 +205,24 @@ export const getMyOwnedCommunities = async (
 ): Promise<Response | undefined> => {
   try {
     const { id: userId } = req.currentUser!;
-    let page = Number(req.query.page);
-    if (!page) {
-      page = 1;
-    }
+    const pageRequest = readPageRequest(req);
 
-    const total = await Community.count({ where: { ownerId: userId } });
-    const myCommunities = await Community.findAll({
-      where: {
-        ownerId: userId,
-      },
-      limit: 10,
-      offset: Number(page) <= 1 ? 0 : (Number(page) - 1) * 10,
-    });
+    const page = await paginate(Community, { ownerId: userId }, pageRequest);
 
     return res.status(200).json({
       status: true,
       content: {
-        meta: {
-          total: total,
-          pages: Math.ceil(total / 10),
-          page: page <= 1 ? 1 : page,
-        },
-        data: [...myCommunities],
+        meta: pageMeta(req, page, pageRequest),
+        data: page.rows.map((community) => ({
+          id: community.id,
+          name: community.name,
+          slug: community.slug,
+          visibility: community.visibility,
+          owner: community.ownerId,
+          archived_at: community.archivedAt ?? null,
+          created_at: community.createdAt,
+          updated_at: community.updatedAt,
+        })),
       },
     });
   } catch (error) {
@@ -189,9 +230,6 @@ export const getMyOwnedCommunities = async (
   }
 };
 
-
-
-
 /**
  * Retrieves paginated list of communities joined by the authenticated user.
  * @param {Request} req - The request object containing the authenticated user's ID and optional pagination parameters.
@@ -199,17 +237,14 @@ export const getMyOwnedCommunities = async (
  * @param {NextFunction} next - The next middleware function in the chain.
  * @returns {Promise<Response | undefined>} - Returns a JSON response with paginated list of joined communities.
  * @description
- *   - Parses the 'page' query parameter from the request; defaults to page 1 if not provided.
+ *   - Reads the 'limit' and 'cursor' query parameters from the request; defaults to the first page of 10 communities.
  *   - Retrieves the authenticated user's ID from the request.
- *   - Searches for roles related to community membership (e.g., "Community Member", "Community Moderator").
- *   - Throws a ParametricError if the required roles are not found.
- *   - Retrieves IDs of roles found and filters members associated with those roles and the authenticated user.
- *   - Counts the total number of communities joined by the authenticated user.
- *   - Retrieves a paginated list of communities joined by the authenticated user from the database,
- *     limited to 10 communities per page.
+ *   - Retrieves IDs of communities owned by the authenticated user so they are excluded.
+ *   - Retrieves a page of the authenticated user's memberships in the remaining communities, in the order they joined,
+ *     and counts them all.
  *   - Fetches additional details for each community, including its owner's information.
- *   - Returns a JSON response with metadata including total number of joined communities, total pages, and current page,
- *     along with detailed information about each joined community.
+ *   - Returns a JSON response with metadata including the total number of joined communities, the page size and links
+ *     to the next and previous pages, along with detailed information about each joined community.
  *   - Catches any errors and passes them to the next middleware.
  */
 export const getMyJoinedCommunities = async (
@@ -218,56 +253,28 @@ export const getMyJoinedCommunities = async (
   next: NextFunction
 ): Promise<Response | undefined> => {
   try {
-    let page = Number(req.query.page);
-    if (!page) {
-      page = 1;
-    }
+    const pageRequest = readPageRequest(req);
     const { id: userId } = req.currentUser!;
 
-    let memberRole = await Role.findAll({
+    const ownedCommunities = await Community.findAll({
       where: {
-        name: {
-          [Op.in]: ["Community Member", "Community Moderator"],
-        },
-      },
-    });
-    if (memberRole.length === 0) {
-      throw new ParametricError([
-        {
-          param: "role",
-          message: "Community Member role not found.",
-          code: "RESOURCE_NOT_FOUND",
-        },
-        {
-          param: "role",
-          message: "Community Admin role not found.",
-          code: "RESOURCE_NOT_FOUND",
-        },
-      ]);
-    }
-    const roleId = memberRole!.map((mm) => mm.id);
-    const myMembership = await Member.findAll({
-      where: {
-        userId: userId,
-        roleId: {
-          [Op.in]: roleId,
-        },
+        ownerId: userId,
       },
-      limit: 10,
-      offset: page <= 1 ? 0 : (Number(page) - 1) * 10,
     });
-
-    const myMemberShipCount = await Member.count({
-      where: {
+    const ownedIds = ownedCommunities.map((cm) => cm.id);
+    const page = await paginate(
+      Member,
+      {
         userId: userId,
-        roleId: {
-          [Op.in]: roleId,
+        communityId: {
+          [Op.notIn]: ownedIds,
         },
       },
-    });
+      pageRequest
+    );
 
     const communitiesWithOwners = await Promise.all(
-      myMembership.map(async (mem) => {
+      page.rows.map(async (mem) => {
         const community = await mem.getCommunity();
         const owner = await community!.getOwner();
 
@@ -290,11 +297,7 @@ export const getMyJoinedCommunities = async (
     return res.status(200).json({
       status: true,
       content: {
-        meta: {
-          total: myMemberShipCount,
-          pages: Math.ceil(myMemberShipCount / 10),
-          page: page <= 1 ? 1 : page,
-        },
+        meta: pageMeta(req, page, pageRequest),
         data: [...communitiesWithOwners],
       },
     });
@@ -303,24 +306,24 @@ export const getMyJoinedCommunities = async (
   }
 };
 
-
-
-
 /**
  * Retrieves paginated list of members belonging to a specific community.
- * @param {Request} req - The request object containing the community ID and optional pagination parameters.
+ * @param {Request} req - The request object containing the community ID and optional filter and pagination parameters.
  * @param {Response} res - The response object to send back the list of community members.
  * @param {NextFunction} next - The next middleware function in the chain.
  * @returns {Promise<Response | undefined>} - Returns a JSON response with paginated list of community members.
  * @description
  *   - Retrieves the community ID from the request parameters.
- *   - Parses the 'page' query parameter from the request; defaults to page 1 if not provided.
- *   - Retrieves a paginated list of members associated with the specified community from the database,
- *     limited to 10 members per page.
- *   - Counts the total number of members belonging to the community.
+ *   - Reads the 'limit' and 'cursor' query parameters from the request; defaults to the first page of 10 members.
+ *   - Throws a ParametricError if the community does not exist or is hidden from the current user.
+ *   - Throws a NonParametricError if the community is not public and the current user is not a member.
+ *   - Filters on 'role', the ID of the members' role, and matches 'q' against the members' names, ignoring case.
+ *   - Retrieves a page of matching members of the specified community from the database, in the order they joined,
+ *     so members joining while a client pages through the list do not shift the pages.
+ *   - Counts the total number of matching members.
  *   - Fetches extended details for each member, including their role and user information.
- *   - Returns a JSON response with metadata including total number of members, total pages, and current page,
- *     along with detailed information about each member.
+ *   - Returns a JSON response with metadata including the total number of members, the page size and links to the
+ *     next and previous pages, along with detailed information about each member.
  *   - Catches any errors and passes them to the next middleware.
  */
 export const getAllMembers = async (
@@ -330,26 +333,39 @@ export const getAllMembers = async (
 ): Promise<Response | undefined> => {
   try {
     const id = req.params.id as string;
-    let page = Number(req.query.page);
-    if (!page) {
-      page = 1;
+    const pageRequest = readPageRequest(req);
+
+    const community = await Community.findByPk(id);
+    if (!community || !(await community.isVisibleTo(req.currentUser?.id))) {
+      throw new ParametricError([
+        {
+          param: "community",
+          message: "Community not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+    if (!(await community.areMembersVisibleTo(req.currentUser?.id))) {
+      throw new NonParametricError([
+        {
+          message: "You are not authorized to perform this action.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
     }
 
-    const members = await Member.findAll({
-      where: {
-        communityId: id,
-      },
-      limit: 10,
-      offset: page <= 1 ? 0 : (page - 1) * 10,
-    });
-    const totalMembers = await Member.count({
-      where: {
-        communityId: id,
-      },
-    });
+    const where: WhereOptions<Member> = { communityId: id };
+    if (req.query.role) {
+      where.roleId = req.query.role as string;
+    }
+    const q = (req.query.q as string | undefined)?.trim();
+    if (q) {
+      where.userId = { [Op.in]: User.idsWithNameLike(containsPattern(q)) };
+    }
+    const page = await paginate(Member, where, pageRequest);
 
     const membersExtended = await Promise.all(
-      members.map(async (mem) => {
+      page.rows.map(async (mem) => {
         const role = await mem.getRole();
         const user = await mem.getUser();
 
@@ -371,11 +387,7 @@ export const getAllMembers = async (
     return res.status(200).json({
       status: true,
       content: {
-        meta: {
-          total: totalMembers,
-          pages: Math.ceil(totalMembers / 10),
-          page: page <= 1 ? 1 : page,
-        },
+        meta: pageMeta(req, page, pageRequest),
         data: [...membersExtended],
       },
     });
@@ -383,3 +395,256 @@ export const getAllMembers = async (
     next(error);
   }
 };
+
+/**
+ * Updates the name, slug, visibility and/or two-factor requirement of a community.
+ * @param {Request} req - The request object containing the community ID and the fields to update.
+ * @param {Response} res - The response object to send back the updated community details.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the updated community details.
+ * @description
+ *   - Retrieves the community ID from the request parameters and the new name, slug and visibility from the request body.
+ *   - The slug is left untouched when only the name changes.
+ *   - Throws a ParametricError if another community uses or used the requested slug.
+ *   - Throws a NonParametricError if anyone but the owner changes the two-factor requirement,
+ *     or the owner requires it without having enabled it themselves.
+ *   - Keeps the previous slug in the slug history so it still resolves to the community.
+ *   - Saves the changes and returns the updated community's details.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const updateCommunity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
+    const { name, slug, visibility, require_mfa } = req.body;
+
+    const community = (await Community.findByPk(communityId))!;
+
+    if (require_mfa !== undefined) {
+      if (community.ownerId !== req.currentUser!.id) {
+        throw new NonParametricError([
+          {
+            message: "Only the owner can change the two-factor requirement.",
+            code: "NOT_ALLOWED_ACCESS",
+          },
+        ]);
+      }
+      const owner = await User.findByPk(community.ownerId);
+      if (require_mfa && !owner?.mfaEnabledAt) {
+        throw new NonParametricError([
+          {
+            message: "Enable two-factor authentication on your account first.",
+            code: "MFA_REQUIRED",
+          },
+        ]);
+      }
+    }
+
+    if (slug !== undefined && !(await Community.isSlugAvailable(slug, community.id))) {
+      throw new ParametricError([
+        {
+          param: "slug",
+          message: "Community with this slug already exists.",
+          code: "RESOURCE_EXISTS",
+        },
+      ]);
+    }
+
+    try {
+      await sequelize.transaction(async () => {
+        if (slug !== undefined) {
+          await community.changeSlug(slug);
+        }
+        if (name !== undefined) {
+          community.name = name;
+        }
+        if (visibility !== undefined) {
+          community.visibility = visibility;
+        }
+        if (require_mfa !== undefined) {
+          community.requireMfa = require_mfa;
+        }
+        await community.save();
+      });
+    } catch (error) {
+      // Another community took the slug since it was checked
+      if (error instanceof UniqueConstraintError && "slug" in error.fields) {
+        throw new ParametricError([
+          {
+            param: "slug",
+            message: "Community with this slug already exists.",
+            code: "RESOURCE_EXISTS",
+          },
+        ]);
+      }
+      throw error;
+    }
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: community.id,
+          name: community.name,
+          slug: community.slug,
+          visibility: community.visibility,
+          require_mfa: community.requireMfa,
+          owner: community.ownerId,
+          archived_at: community.archivedAt ?? null,
+          created_at: community.createdAt,
+          updated_at: community.updatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Archives or restores a community.
+ * @param {boolean} archived - Whether the returned handler archives (true) or restores (false) the community.
+ * @returns {Function} - An Express handler toggling the archived state of the community in the request parameters.
+ * @description
+ *   - Archived communities are hidden from the public listing and do not accept new members.
+ *   - Returns a JSON response with the community's ID and archive timestamp.
+ */
+const setCommunityArchived =
+  (archived: boolean) =>
+  async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<Response | undefined> => {
+    try {
+      const communityId = req.params.communityId as string;
+      const community = (await Community.findByPk(communityId))!;
+
+      await community.update({ archivedAt: archived ? new Date() : null });
+
+      return res.status(200).json({
+        status: true,
+        content: {
+          data: {
+            id: community.id,
+            archived_at: community.archivedAt,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const archiveCommunity = setCommunityArchived(true);
+export const unarchiveCommunity = setCommunityArchived(false);
+
+/**
+ * Permanently deletes a community together with its members and custom roles.
+ * @param {Request} req - The request object containing the community ID.
+ * @param {Response} res - The response object to send back the status of the deletion.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with status true upon successful deletion.
+ * @description
+ *   - Deletes, inside a single transaction, every member record of the community,
+ *     its ownership transfers, former slugs, join requests and invites, the roles scoped to the community and finally the community itself.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const deleteCommunity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const community = (await Community.findByPk(req.params.communityId))!;
+    await community.destroyWithDependents();
+
+    return res.status(200).json({ status: true });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Retrieves a community by its ID or slug, along with its owner and member count.
+ * @param {Request} req - The request object containing the community ID or slug.
+ * @param {Response} res - The response object to send back the community details.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | void>} - Returns a JSON response with the community details,
+ *   or a redirect to the current slug when a former slug was requested.
+ * @description
+ *   - Searches for a community whose ID matches the request parameter, and failing that, whose current slug does.
+ *   - If none is found, searches the slug history and redirects to the community's current slug.
+ *   - Throws a ParametricError if no community matches, or if it is hidden and the current user is not a member.
+ *   - Fetches the community's owner and counts its members.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const getCommunity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | void> => {
+  try {
+    const idOrSlug = req.params.idOrSlug as string;
+
+    const community =
+      (await Community.findByPk(idOrSlug)) ??
+      (await Community.findOne({ where: { slug: idOrSlug } }));
+
+    if (!community || !(await community.isVisibleTo(req.currentUser?.id))) {
+      const formerSlug = !community
+        ? await CommunitySlug.findOne({
+            where: { slug: idOrSlug },
+            include: ["community"],
+          })
+        : null;
+      if (
+        formerSlug?.community &&
+        (await formerSlug.community.isVisibleTo(req.currentUser?.id))
+      ) {
+        return res.redirect(301, `${req.baseUrl}/${formerSlug.community.slug}`);
+      }
+      throw new ParametricError([
+        {
+          param: "community",
+          message: "Community not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    const owner = await community.getOwner();
+    const membersCount = await Member.count({
+      where: {
+        communityId: community.id,
+      },
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: community.id,
+          name: community.name,
+          slug: community.slug,
+          owner: owner
+            ? {
+                id: owner.id,
+                name: owner.name,
+              }
+            : null,
+          visibility: community.visibility,
+          members_count: membersCount,
+          archived_at: community.archivedAt ?? null,
+          created_at: community.createdAt,
+          updated_at: community.updatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
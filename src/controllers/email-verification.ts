@@ -0,0 +1,103 @@
+import { NextFunction, Request, Response } from "express";
+import { Op } from "@sequelize/core";
+import { User, UserToken } from "../models";
+import { NonParametricError, ParametricError } from "../errors";
+
+/**
+ * Verifies the email address of a user with a mailed verification token.
+ * @param {Request} req - The request object containing the verification token.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the verification.
+ * @description
+ *   - Consumes the verification token.
+ *   - If it is unknown, expired or already used, throws a ParametricError.
+ *   - If the user is changing their email address, throws a ParametricError if another user took the new address
+ *     in the meantime, and otherwise replaces the current address with it.
+ *   - Marks the email address of the token's user as verified.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const verifyEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const record = await UserToken.consume(req.body.token, "email_verification");
+    const user = record ? await User.findByPk(record.userId) : null;
+    if (!user) {
+      throw new ParametricError([
+        {
+          param: "token",
+          message: "The verification token is invalid or has expired.",
+          code: "INVALID_INPUT",
+        },
+      ]);
+    }
+
+    if (user.pendingEmail) {
+      const existingUser = await User.findOne({
+        where: { email: user.pendingEmail, id: { [Op.ne]: user.id } },
+      });
+      if (existingUser) {
+        throw new ParametricError([
+          {
+            param: "email",
+            message: "User with this email address already exists.",
+            code: "RESOURCE_EXISTS",
+          },
+        ]);
+      }
+    }
+
+    await user.update({
+      email: user.pendingEmail ?? user.email,
+      pendingEmail: null,
+      emailVerifiedAt: new Date(),
+    });
+
+    return res
+      .status(200)
+      .json({ status: true, content: { message: "Email address verified!" } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Mails the authenticated user a new verification token.
+ * @param {Request} req - The request object containing the authenticated user's ID.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the mail was sent.
+ * @description
+ *   - Throws a NonParametricError if the email address is already verified and no change of address is pending.
+ *   - Issues a new verification token, invalidating earlier ones, and mails it.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const resendEmailVerification = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await User.findByPk(req.currentUser!.id);
+    if (user!.emailVerifiedAt && !user!.pendingEmail) {
+      throw new NonParametricError([
+        {
+          message: "Your email address is already verified.",
+          code: "RESOURCE_EXISTS",
+        },
+      ]);
+    }
+
+    await user!.requestEmailVerification();
+
+    return res.status(200).json({
+      status: true,
+      content: { message: "A verification token has been sent to your email address." },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
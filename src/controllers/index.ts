@@ -1,4 +1,13 @@
 export * from "./role";
 export * from "./auth";
 export * from "./community";
-export * from "./member";
\ No newline at end of file
+export * from "./member";
+export * from "./transfer";
+export * from "./join-request";
+export * from "./invite";
+export * from "./password";
+export * from "./email-verification";
+export * from "./admin";
+export * from "./mfa";
+export * from "./profile";
+export * from "./account";
\ No newline at end of file
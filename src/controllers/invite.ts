@@ -0,0 +1,262 @@
+import { NextFunction, Request, Response } from "express";
+import crypto from "crypto";
+import { Op } from "@sequelize/core";
+import { Community, Invite, Member } from "../models";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { NonParametricError, ParametricError } from "../errors";
+import { sequelize } from "../db";
+
+/**
+ * Builds the link a user follows to redeem an invite.
+ * @param {Request} req - The request object, used for the protocol and host.
+ * @param {string} token - The token of the invite.
+ * @returns {string} - The absolute redeem URL.
+ */
+const inviteLink = (req: Request, token: string): string => {
+  return `${req.protocol}://${req.get("host")}/v1/invite/${token}`;
+};
+
+/**
+ * Creates an invite to a community.
+ * @param {Request} req - The request object containing the community ID and optional expiry and usage limit.
+ * @param {Response} res - The response object to send back the invite.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the invite, its token and link.
+ * @description
+ *   - Reads 'expires_in' (seconds) and 'max_uses' from the request body; both are optional.
+ *   - Throws a NonParametricError if the community is archived.
+ *   - Generates a random token and stores the invite.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const createInvite = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const communityId = req.params.communityId as string;
+    const { expires_in, max_uses } = req.body;
+
+    const community = (await Community.findByPk(communityId))!;
+    if (community.archivedAt) {
+      throw new NonParametricError([
+        {
+          message: "Community is archived.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+
+    const invite = await Invite.create({
+      id: Snowflake.generate(),
+      token: crypto.randomBytes(24).toString("base64url"),
+      communityId,
+      createdBy: userId,
+      expiresAt: expires_in
+        ? new Date(Date.now() + Number(expires_in) * 1000)
+        : null,
+      maxUses: max_uses ? Number(max_uses) : null,
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: invite.id,
+          community: invite.communityId,
+          token: invite.token,
+          link: inviteLink(req, invite.token),
+          expires_at: invite.expiresAt,
+          max_uses: invite.maxUses,
+          uses: invite.uses,
+          created_at: invite.createdAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Retrieves the invites of a community that were not revoked.
+ * @param {Request} req - The request object containing the community ID.
+ * @param {Response} res - The response object to send back the list of invites.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the invites, newest first.
+ */
+export const getInvites = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
+
+    const invites = await Invite.findAll({
+      where: {
+        communityId,
+        revokedAt: null,
+      },
+      order: [["createdAt", "DESC"]],
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: invites.map((invite) => ({
+          id: invite.id,
+          community: invite.communityId,
+          token: invite.token,
+          link: inviteLink(req, invite.token),
+          expires_at: invite.expiresAt,
+          max_uses: invite.maxUses,
+          uses: invite.uses,
+          redeemable: invite.isRedeemable(),
+          created_at: invite.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revokes an invite so it can no longer be redeemed.
+ * @param {Request} req - The request object containing the community ID and invite ID.
+ * @param {Response} res - The response object to send back the status of the operation.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with status true once revoked.
+ */
+export const revokeInvite = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
+    const inviteId = req.params.inviteId as string;
+
+    const invite = await Invite.findOne({
+      where: {
+        id: inviteId,
+        communityId,
+        revokedAt: null,
+      },
+    });
+    if (!invite) {
+      throw new ParametricError([
+        {
+          param: "invite",
+          message: "Invite not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    await invite.update({ revokedAt: new Date() });
+    return res.status(200).json({ status: true });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Redeems an invite, adding the authenticated user to the community with the "Community Member" role.
+ * @param {Request} req - The request object containing the invite token.
+ * @param {Response} res - The response object to send back the created member.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the created member.
+ * @description
+ *   - Throws a ParametricError if no invite has the token, or if it was revoked, expired or used up.
+ *   - Throws a NonParametricError if the community is archived or the user is already a member.
+ *   - Inside a single transaction, counts the use of the invite and creates the member record.
+ *     The use is only counted while the invite still has uses left, so concurrent redemptions cannot overrun it.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const redeemInvite = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const token = req.params.token as string;
+
+    const invite = await Invite.findOne({
+      where: { token },
+      include: ["community"],
+    });
+    if (!invite || !invite.isRedeemable()) {
+      throw new ParametricError([
+        {
+          param: "token",
+          message: "Invite is invalid or has expired.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+    if (invite.community?.archivedAt) {
+      throw new NonParametricError([
+        {
+          message: "Community is archived.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+
+    const isMember = await Member.findOne({
+      where: {
+        communityId: invite.communityId,
+        userId,
+      },
+    });
+    if (isMember) {
+      throw new NonParametricError([
+        {
+          message: "User is already added in the community.",
+          code: "RESOURCE_EXISTS",
+        },
+      ]);
+    }
+
+    const member = await sequelize.transaction(async () => {
+      const [updated] = await Invite.increment("uses", {
+        where: {
+          id: invite.id,
+          [Op.or]: [
+            { maxUses: null },
+            { maxUses: { [Op.gt]: sequelize.col("uses") } },
+          ],
+        },
+      });
+      if (updated.length === 0) {
+        throw new ParametricError([
+          {
+            param: "token",
+            message: "Invite is invalid or has expired.",
+            code: "RESOURCE_NOT_FOUND",
+          },
+        ]);
+      }
+      return Member.addWithDefaultRole(invite.communityId, userId);
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: member.id,
+          community: member.communityId,
+          user: member.userId,
+          role: member.roleId,
+          created_at: member.createdAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,241 @@
+import { NextFunction, Request, Response } from "express";
+import { Community, JoinRequest, Member } from "../models";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { NonParametricError, ParametricError } from "../errors";
+import { sequelize } from "../db";
+
+/**
+ * Creates a request from the authenticated user to join a community.
+ * @param {Request} req - The request object containing the community ID.
+ * @param {Response} res - The response object to send back the join request.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the join request.
+ * @description
+ *   - Throws a ParametricError if the community does not exist or is hidden; hidden communities are joined by invite only.
+ *   - Throws a NonParametricError if the community is archived.
+ *   - Throws a NonParametricError if the user is already a member or already has a pending request.
+ *   - For public communities, adds the user with the "Community Member" role and records the request as approved.
+ *   - Otherwise creates a pending join request to be reviewed by the community's admins and moderators.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const requestToJoin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const communityId = req.params.communityId as string;
+
+    const community = await Community.findByPk(communityId);
+    if (!community || community.visibility === "hidden") {
+      throw new ParametricError([
+        {
+          param: "community",
+          message: "Community not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+    if (community.archivedAt) {
+      throw new NonParametricError([
+        {
+          message: "Community is archived.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+
+    const isMember = await Member.findOne({
+      where: {
+        communityId,
+        userId,
+      },
+    });
+    if (isMember) {
+      throw new NonParametricError([
+        {
+          message: "User is already added in the community.",
+          code: "RESOURCE_EXISTS",
+        },
+      ]);
+    }
+
+    const pending = await JoinRequest.findOne({
+      where: {
+        communityId,
+        userId,
+        status: "pending",
+      },
+    });
+    if (pending) {
+      throw new NonParametricError([
+        {
+          message: "A request to join this community is already pending.",
+          code: "RESOURCE_EXISTS",
+        },
+      ]);
+    }
+
+    // Public communities need no review: the request is approved on the spot
+    const isPublic = community.visibility === "public";
+    const joinRequest = await sequelize.transaction(async () => {
+      if (isPublic) {
+        await Member.addWithDefaultRole(communityId, userId);
+      }
+      return JoinRequest.create({
+        id: Snowflake.generate(),
+        communityId,
+        userId,
+        status: isPublic ? "approved" : "pending",
+        reviewedAt: isPublic ? new Date() : null,
+      });
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: joinRequest.id,
+          community: joinRequest.communityId,
+          user: joinRequest.userId,
+          status: joinRequest.status,
+          created_at: joinRequest.createdAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Retrieves the pending join requests of a community.
+ * @param {Request} req - The request object containing the community ID.
+ * @param {Response} res - The response object to send back the list of join requests.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the pending join requests, oldest first.
+ */
+export const getJoinRequests = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
+
+    const joinRequests = await JoinRequest.findAll({
+      where: {
+        communityId,
+        status: "pending",
+      },
+      order: [["createdAt", "ASC"]],
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: joinRequests.map((joinRequest) => ({
+          id: joinRequest.id,
+          community: joinRequest.communityId,
+          user: joinRequest.userId,
+          status: joinRequest.status,
+          created_at: joinRequest.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Approves or rejects a pending join request.
+ * @param {boolean} approved - Whether the returned handler approves (true) or rejects (false) the request.
+ * @returns {Function} - An Express handler reviewing the join request in the request parameters.
+ * @description
+ *   - Throws a ParametricError if there is no pending join request with that ID in the community.
+ *   - When approving, throws a NonParametricError if the community is archived. Requests can still be rejected.
+ *   - Records the reviewer and review time on the join request.
+ *   - When approving, adds the user to the community with the "Community Member" role,
+ *     unless they joined in the meantime.
+ */
+const reviewJoinRequest =
+  (approved: boolean) =>
+  async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): Promise<Response | undefined> => {
+    try {
+      const { id: userId } = req.currentUser!;
+      const communityId = req.params.communityId as string;
+      const requestId = req.params.requestId as string;
+
+      const joinRequest = await JoinRequest.findOne({
+        where: {
+          id: requestId,
+          communityId,
+          status: "pending",
+        },
+      });
+      if (!joinRequest) {
+        throw new ParametricError([
+          {
+            param: "request",
+            message: "Join request not found.",
+            code: "RESOURCE_NOT_FOUND",
+          },
+        ]);
+      }
+
+      const community = await Community.findByPk(communityId);
+      if (approved && community?.archivedAt) {
+        throw new NonParametricError([
+          {
+            message: "Community is archived.",
+            code: "NOT_ALLOWED_ACCESS",
+          },
+        ]);
+      }
+
+      await sequelize.transaction(async () => {
+        await joinRequest.update({
+          status: approved ? "approved" : "rejected",
+          reviewedBy: userId,
+          reviewedAt: new Date(),
+        });
+
+        if (!approved) {
+          return;
+        }
+        const isMember = await Member.findOne({
+          where: {
+            communityId,
+            userId: joinRequest.userId,
+          },
+        });
+        if (!isMember) {
+          await Member.addWithDefaultRole(communityId, joinRequest.userId);
+        }
+      });
+
+      return res.status(200).json({
+        status: true,
+        content: {
+          data: {
+            id: joinRequest.id,
+            community: joinRequest.communityId,
+            user: joinRequest.userId,
+            status: joinRequest.status,
+            reviewed_at: joinRequest.reviewedAt,
+          },
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  };
+
+export const approveJoinRequest = reviewJoinRequest(true);
+export const rejectJoinRequest = reviewJoinRequest(false);
@@ -1,8 +1,29 @@
 import { NextFunction, Request, Response } from "express";
-import { Member, Role, User } from "../models";
+import { AuditLog, Community, Member, Role, User } from "../models";
 import { Snowflake } from "@theinternetfolks/snowflake";
-import { Op } from "@sequelize/core";
 import { NonParametricError, ParametricError } from "../errors";
+import { ADMIN_PRIORITY } from "../config";
+import { sequelize } from "../db";
+
+/**
+ * Ensures the authenticated user may grant a role, whether to a new or an existing member.
+ * @param {Request} req - The request object, with the authenticated user's membership set by requirePermission.
+ * @param {Role} role - The role to grant.
+ * @throws {NonParametricError} - Throws a NonParametricError if the role is admin-level and the authenticated user
+ *   does not own the community, or if the role is not ranked below the authenticated user.
+ */
+const assertGrantableRole = async (req: Request, role: Role): Promise<void> => {
+  const callerRank = await Member.rankOf(req.membership);
+  const rolePriority = role.priority ?? 0;
+  if ((rolePriority >= ADMIN_PRIORITY && callerRank !== Infinity) || rolePriority >= callerRank) {
+    throw new NonParametricError([
+      {
+        message: "You cannot grant a role ranked equal to or above your own.",
+        code: "NOT_ALLOWED_ACCESS",
+      },
+    ]);
+  }
+};
 
 /**
  * Adds a new member to a community with the specified role.
@@ -12,12 +33,14 @@ import { NonParametricError, ParametricError } from "../errors";
  * @returns {Promise<Response | undefined>} - Returns a JSON response with details of the added member.
  * @description
  *   - Retrieves community ID, role ID, and user ID from the request body.
+ *   - Throws a NonParametricError if the community is archived.
  *   - Finds the role document in the database based on the provided role ID.
- *   - Throws a ParametricError if the role document is not found.
+ *   - Throws a ParametricError if the role document is not found or is a custom role of another community.
+ *   - Throws a NonParametricError if the role is admin-level or not ranked below the authenticated user,
+ *     unless the authenticated user owns the community.
  *   - Finds the user document in the database based on the provided user ID.
  *   - Throws a ParametricError if the user document is not found.
- *   - Checks if the user is already a member of the community with the specified role.
- *   - Throws a NonParametricError if the user is already a member.
+ *   - Throws a NonParametricError if the user is already a member of the community, whatever their role.
  *   - Creates a new member record in the database with a unique ID generated using Snowflake.
  *   - Returns a JSON response with details of the added member including community ID, user ID, role ID, and creation timestamp.
  *   - Catches any errors and passes them to the next middleware.
@@ -30,8 +53,18 @@ export const addMember = async (
   try {
     const { community, role, user } = req.body;
 
+    const communityDoc = await Community.findByPk(community);
+    if (communityDoc?.archivedAt) {
+      throw new NonParametricError([
+        {
+          message: "Community is archived.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+
     const roleDoc = await Role.findByPk(role);
-    if (!roleDoc) {
+    if (!roleDoc || !roleDoc.isUsableIn(community)) {
       throw new ParametricError([
         {
           param: "role",
@@ -41,6 +74,8 @@ export const addMember = async (
       ]);
     }
 
+    await assertGrantableRole(req, roleDoc);
+
     const userDoc = await User.findByPk(user);
     if (!userDoc) {
       throw new ParametricError([
@@ -56,7 +91,6 @@ export const addMember = async (
       where: {
         userId: user,
         communityId: community,
-        roleId: role,
       },
     });
 
@@ -93,20 +127,42 @@ export const addMember = async (
 };
 
 /**
- * Removes a member from communities where the authenticated user has admin or moderator roles.
- * @param {Request} req - The request object containing the authenticated user's ID and the member ID to remove.
- * @param {Response} res - The response object to send back the status of the removal operation.
+ * Ensures a member record can be deleted without orphaning its community.
+ * @param {Member} member - The member record about to be deleted.
+ * @throws {NonParametricError} - Throws a NonParametricError if the member owns the community or is its last admin.
+ */
+const assertRemovable = async (member: Member): Promise<void> => {
+  const community = await member.getCommunity();
+  if (community?.ownerId === member.userId) {
+    throw new NonParametricError([
+      {
+        message: "The community owner cannot leave or be removed. Transfer the ownership first.",
+        code: "NOT_ALLOWED_ACCESS",
+      },
+    ]);
+  }
+  if (await member.isLastAdmin()) {
+    throw new NonParametricError([
+      {
+        message: "The last admin of a community cannot be removed.",
+        code: "NOT_ALLOWED_ACCESS",
+      },
+    ]);
+  }
+};
+
+/**
+ * Removes a member from a single community.
+ * @param {Request} req - The request object containing either the member ID, or the community ID and user ID.
+ * @param {Response} res - The response object to send back the removed member.
  * @param {NextFunction} next - The next middleware function in the chain.
- * @returns {Promise<Response | undefined>} - Returns a JSON response with status true upon successful removal.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the removed member.
  * @description
- *   - Retrieves the authenticated user's ID from the request.
- *   - Retrieves the member ID to remove from the request parameters.
- *   - Searches for roles such as "Community Admin" or "Community Moderator" in the database.
- *   - Retrieves communities where the authenticated user is an admin or moderator.
- *   - Finds member records associated with the specified member ID and communities.
- *   - Throws a NonParametricError if no member records are found for the specified member ID and communities.
- *   - Deletes all found member records from the database.
- *   - Returns a JSON response with status true indicating successful removal of the member.
+ *   - Finds the member record by the 'memberId' route parameter, or by the 'communityId' and 'userId' route parameters.
+ *   - Throws a NonParametricError if the member record is not found.
+ *   - Throws a NonParametricError if the member is ranked equal to or above the authenticated user.
+ *   - Throws a NonParametricError if the member owns the community or is its last admin.
+ *   - Deletes the member record and records the removal in the audit log.
  */
 export const removeMember = async (
   req: Request,
@@ -115,32 +171,97 @@ export const removeMember = async (
 ) => {
   try {
     const { id: userId } = req.currentUser!;
-    const id = req.params.id as string;
+    const { memberId, communityId, userId: targetUserId } = req.params;
 
-    const roles = await Role.findAll({
-      where: {
-        [Op.or]: [{ name: "Community Admin" }, { name: "Community Moderator" }],
-      },
+    const member = memberId
+      ? await Member.findByPk(memberId, { include: ["role"] })
+      : await Member.findOne({
+          where: {
+            communityId,
+            userId: targetUserId,
+          },
+          include: ["role"],
+        });
+    if (!member) {
+      throw new NonParametricError([
+        {
+          message: "Member not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    const callerRank = await Member.rankOf(req.membership);
+    if ((await member.getRank()) >= callerRank) {
+      throw new NonParametricError([
+        {
+          message: "You cannot remove a member ranked equal to or above you.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+
+    await assertRemovable(member);
+
+    await sequelize.transaction(async () => {
+      await member.destroy();
+      await AuditLog.record({
+        actorId: userId,
+        action: "member.removed",
+        communityId: member.communityId,
+        targetId: member.id,
+        data: {
+          user: member.userId,
+          role: member.roleId,
+        },
+      });
     });
 
-    const communities = await Member.findAll({
-      where: {
-        userId: userId,
-        roleId: {
-          [Op.in]: roles.map((rl) => rl.id),
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: member.id,
+          community: member.communityId,
+          user: member.userId,
+          role: member.roleId,
+          created_at: member.createdAt,
         },
       },
     });
+  } catch (error) {
+    next(error);
+  }
+};
 
-    const member = await Member.findAll({
+/**
+ * Removes the authenticated user from a community.
+ * @param {Request} req - The request object containing the authenticated user's ID and the community ID.
+ * @param {Response} res - The response object to send back the status of the operation.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with status true once the user left.
+ * @description
+ *   - Finds the authenticated user's member record in the community.
+ *   - Throws a NonParametricError if the user is not a member of the community.
+ *   - Throws a NonParametricError if the user owns the community or is its last admin.
+ *   - Deletes the member record.
+ */
+export const leaveCommunity = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const communityId = req.params.communityId as string;
+
+    const member = await Member.findOne({
       where: {
-        userId: id,
-        communityId: {
-          [Op.in]: communities.map((cm) => cm.communityId),
-        },
+        userId,
+        communityId,
       },
     });
-    if (member.length === 0) {
+    if (!member) {
       throw new NonParametricError([
         {
           message: "Member not found.",
@@ -149,9 +270,123 @@ export const removeMember = async (
       ]);
     }
 
-    await Promise.all(member.map((mm) => mm.destroy()));
+    await assertRemovable(member);
+
+    await member.destroy();
     return res.status(200).json({ status: true });
   } catch (error) {
     next(error);
   }
 };
+
+/**
+ * Changes the role of a member in place, keeping the member record and its creation date.
+ * @param {Request} req - The request object containing the member ID and the new role ID.
+ * @param {Response} res - The response object to send back the updated member.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the updated member.
+ * @description
+ *   - Throws a ParametricError if the member does not exist, or if the role is not found or belongs to another community.
+ *   - Throws a NonParametricError if:
+ *     - the authenticated user targets their own membership, so nobody can escalate themselves;
+ *     - the member is the owner, who always stays admin, or does not rank below the authenticated user;
+ *     - the role is admin-level and the authenticated user does not own the community, or does not rank below the
+ *       authenticated user;
+ *     - the member is the last admin and the role is not admin-level.
+ *   - Updates the member's role and records the change in the audit log.
+ */
+export const updateMemberRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const memberId = req.params.memberId as string;
+    const { role } = req.body;
+
+    const member = await Member.findByPk(memberId, { include: ["role"] });
+    if (!member) {
+      throw new ParametricError([
+        {
+          param: "member",
+          message: "Member not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    const roleDoc = await Role.findByPk(role);
+    if (!roleDoc || !roleDoc.isUsableIn(member.communityId)) {
+      throw new ParametricError([
+        {
+          param: "role",
+          message: "Role not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    const callerRank = await Member.rankOf(req.membership);
+    const memberRank = await member.getRank();
+    const rolePriority = roleDoc.priority ?? 0;
+
+    if (member.userId === userId) {
+      throw new NonParametricError([
+        {
+          message: "You cannot change your own role.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+    if (memberRank >= callerRank) {
+      throw new NonParametricError([
+        {
+          message: "You cannot change the role of a member ranked equal to or above you.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+    await assertGrantableRole(req, roleDoc);
+    if (rolePriority < ADMIN_PRIORITY && (await member.isLastAdmin())) {
+      throw new NonParametricError([
+        {
+          message: "The last admin of a community cannot be demoted.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+
+    const previousRoleId = member.roleId;
+    await sequelize.transaction(async () => {
+      await member.update({ roleId: roleDoc.id });
+      await AuditLog.record({
+        actorId: userId,
+        action: "member.role_changed",
+        communityId: member.communityId,
+        targetId: member.id,
+        data: {
+          user: member.userId,
+          from: previousRoleId,
+          to: roleDoc.id,
+        },
+      });
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: member.id,
+          community: member.communityId,
+          user: member.userId,
+          role: member.roleId,
+          created_at: member.createdAt,
+          updated_at: member.updatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,224 @@
+import { NextFunction, Request, Response } from "express";
+import { SigninThrottle, User, UserSession } from "../models";
+import { NonParametricError, ParametricError } from "../errors";
+import { generateTotpSecret, totpUri } from "../utils";
+import { MFA_ISSUER, SIGNIN_ACCOUNT_MAX_FAILURES } from "../config";
+
+/**
+ * Checks a two-factor code of a user, using it up. Failed codes count towards the lockout of the account's signins.
+ * @param {Response} res - The response object, to set the Retry-After header on while the account is locked out.
+ * @param {User} user - The user entering the code.
+ * @param {string} code - The TOTP or recovery code.
+ * @throws {NonParametricError} - Throws a NonParametricError if the account is locked out after too many failures.
+ * @throws {ParametricError} - Throws a ParametricError if the code is not accepted.
+ */
+export const assertMfaCode = async (res: Response, user: User, code: string): Promise<void> => {
+  const accountKey = SigninThrottle.accountKey(user.email);
+  const { lockedUntil } = await SigninThrottle.assess([accountKey]);
+  if (lockedUntil) {
+    res.set("Retry-After", String(Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)));
+    throw new NonParametricError([
+      {
+        message: "Too many failed sign in attempts. Please try again later.",
+        code: "TOO_MANY_ATTEMPTS",
+      },
+    ]);
+  }
+
+  if (!(await user.verifyMfaCode(code))) {
+    await SigninThrottle.recordFailure(accountKey, SIGNIN_ACCOUNT_MAX_FAILURES);
+    throw new ParametricError([
+      {
+        param: "code",
+        message: "The code you provided is invalid.",
+        code: "INVALID_CREDENTIALS",
+      },
+    ]);
+  }
+  await SigninThrottle.clear(accountKey);
+};
+
+/**
+ * Loads the authenticated user, making sure two-factor authentication is in the expected state.
+ * @param {Request} req - The request object containing the authenticated user's ID.
+ * @param {boolean} enabled - Whether two-factor authentication should be enabled.
+ * @returns {Promise<User>} - The authenticated user.
+ * @throws {NonParametricError} - Throws a NonParametricError if two-factor authentication is not in the expected state.
+ */
+const loadUser = async (req: Request, enabled: boolean): Promise<User> => {
+  const user = (await User.findByPk(req.currentUser!.id))!;
+  if (Boolean(user.mfaEnabledAt) !== enabled) {
+    throw new NonParametricError([
+      enabled
+        ? {
+            message: "Two-factor authentication is not enabled.",
+            code: "RESOURCE_NOT_FOUND",
+          }
+        : {
+            message: "Two-factor authentication is already enabled.",
+            code: "RESOURCE_EXISTS",
+          },
+    ]);
+  }
+  return user;
+};
+
+/**
+ * Starts enrolling the authenticated user in two-factor authentication.
+ * @param {Request} req - The request object containing the authenticated user's ID.
+ * @param {Response} res - The response object to send back the secret.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the secret and its otpauth URI.
+ * @description
+ *   - Throws a NonParametricError if two-factor authentication is already enabled.
+ *   - Generates a new TOTP secret, replacing that of an unfinished enrollment.
+ *   - Returns the secret and its otpauth URI, to be shown as a QR code.
+ *   - Two-factor authentication is only enabled once a code is confirmed.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const enrollMfa = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await loadUser(req, false);
+
+    const secret = generateTotpSecret();
+    await user.update({ mfaSecret: secret, mfaLastStep: null });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          secret,
+          otpauth_uri: totpUri(secret, user.email, MFA_ISSUER),
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Enables two-factor authentication once the user proves their app generates the right codes.
+ * @param {Request} req - The request object containing a code from the authenticator app.
+ * @param {Response} res - The response object to send back the recovery codes.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the recovery codes.
+ * @description
+ *   - Throws a NonParametricError if two-factor authentication is already enabled or was not enrolled in.
+ *   - Throws a NonParametricError if the account is locked out after too many failed codes or signins.
+ *   - Throws a ParametricError if the code does not match the enrolled secret, counting the failure.
+ *   - Enables two-factor authentication and generates the recovery codes, which are only shown now.
+ *   - Signs out every other session of the user.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const confirmMfa = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await loadUser(req, false);
+    if (!user.mfaSecret) {
+      throw new NonParametricError([
+        {
+          message: "Start enrolling in two-factor authentication first.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    await assertMfaCode(res, user, req.body.code);
+    await user.update({ mfaEnabledAt: new Date() });
+    const recoveryCodes = await user.regenerateRecoveryCodes();
+    await UserSession.revokeAllFor(user.id, req.currentUser!.sid);
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          recovery_codes: recoveryCodes,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replaces the recovery codes of the authenticated user.
+ * @param {Request} req - The request object containing a TOTP or recovery code.
+ * @param {Response} res - The response object to send back the recovery codes.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the new recovery codes.
+ * @description
+ *   - Throws a NonParametricError if two-factor authentication is not enabled.
+ *   - Throws a NonParametricError if the account is locked out after too many failed codes or signins.
+ *   - Throws a ParametricError if the code is not accepted, counting the failure.
+ *   - Invalidates the previous recovery codes and returns new ones, which are only shown now.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const regenerateRecoveryCodes = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await loadUser(req, true);
+    await assertMfaCode(res, user, req.body.code);
+    const recoveryCodes = await user.regenerateRecoveryCodes();
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          recovery_codes: recoveryCodes,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Disables two-factor authentication for the authenticated user.
+ * @param {Request} req - The request object containing a TOTP or recovery code.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming two-factor authentication is disabled.
+ * @description
+ *   - Throws a NonParametricError if two-factor authentication is not enabled.
+ *   - Throws a NonParametricError if the account is locked out after too many failed codes or signins.
+ *   - Throws a ParametricError if the code is not accepted, counting the failure.
+ *   - Removes the secret and the recovery codes and signs out every other session of the user.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const disableMfa = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await loadUser(req, true);
+    await assertMfaCode(res, user, req.body.code);
+    await user.update({
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaLastStep: null,
+      mfaRecoveryCodes: [],
+    });
+    await UserSession.revokeAllFor(user.id, req.currentUser!.sid);
+
+    return res.status(200).json({
+      status: true,
+      content: { message: "Two-factor authentication disabled!" },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
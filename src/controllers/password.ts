@@ -0,0 +1,136 @@
+import { NextFunction, Request, Response } from "express";
+import { User, UserSession, UserToken } from "../models";
+import { comparePasswords } from "../utils";
+import { ParametricError } from "../errors";
+import { sendMail } from "../mailer";
+import { PASSWORD_RESET_TTL } from "../config";
+
+/**
+ * Changes the password of the authenticated user.
+ * @param {Request} req - The request object containing the current and the new password.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the change.
+ * @description
+ *   - Compares 'current_password' with the stored password.
+ *   - If they do not match, throws a ParametricError.
+ *   - Stores the new password, which is hashed by the model hook.
+ *   - Signs every other session of the user out; the current one stays signed in.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const changePassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { current_password, new_password } = req.body;
+
+    const user = await User.findByPk(req.currentUser!.id);
+    if (!user || !(await comparePasswords(current_password, user.password))) {
+      throw new ParametricError([
+        {
+          param: "current_password",
+          message: "The credentials you provided are invalid.",
+          code: "INVALID_CREDENTIALS",
+        },
+      ]);
+    }
+
+    await user.update({ password: new_password });
+    await UserSession.revokeAllFor(user.id, req.currentUser!.sid);
+
+    return res
+      .status(200)
+      .json({ status: true, content: { message: "Password changed!" } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Mails a password reset token to a user.
+ * @param {Request} req - The request object containing the email address.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the request.
+ * @description
+ *   - Looks up the user with the provided email.
+ *   - If found, issues a single-use reset token, invalidating earlier ones, and mails it.
+ *   - Responds the same way whether or not the user exists, so emails cannot be probed.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const forgotPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await User.findOne({ where: { email: req.body.email } });
+    if (user) {
+      const token = await UserToken.issue(user.id, "password_reset", PASSWORD_RESET_TTL);
+      await sendMail({
+        to: user.email,
+        subject: "Reset your password",
+        text:
+          `Use this token to reset your password: ${token}\n\n` +
+          `It expires in ${Math.round(PASSWORD_RESET_TTL / 60)} minutes. ` +
+          "If you did not ask for a reset, you can ignore this mail.",
+      });
+    }
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        message: "If an account exists for this email, a reset token has been sent to it.",
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Resets the password of a user with a mailed reset token.
+ * @param {Request} req - The request object containing the reset token and the new password.
+ * @param {Response} res - The response object to send back the response.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response confirming the reset.
+ * @description
+ *   - Consumes the reset token.
+ *   - If it is unknown, expired or already used, throws a ParametricError.
+ *   - Stores the new password, which is hashed by the model hook.
+ *   - Signs the user out everywhere.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { token, password } = req.body;
+
+    const record = await UserToken.consume(token, "password_reset");
+    const user = record ? await User.findByPk(record.userId) : null;
+    if (!user) {
+      throw new ParametricError([
+        {
+          param: "token",
+          message: "The reset token is invalid or has expired.",
+          code: "INVALID_INPUT",
+        },
+      ]);
+    }
+
+    await user.update({ password });
+    await user.revokeAllTokens();
+    req.session = null;
+
+    return res
+      .status(200)
+      .json({ status: true, content: { message: "Password reset!" } });
+  } catch (error) {
+    next(error);
+  }
+};
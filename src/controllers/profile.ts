@@ -0,0 +1,151 @@
+import { NextFunction, Request, Response } from "express";
+import { Op } from "@sequelize/core";
+import { User } from "../models";
+import { ParametricError } from "../errors";
+import { TProfileField } from "../types";
+
+/**
+ * Lists the profile fields of a user by their public name.
+ * @param {User} user - The user.
+ * @returns {Record<TProfileField, unknown>} - The value of every profile field.
+ */
+const profileFields = (user: User): Record<TProfileField, unknown> => ({
+  name: user.name,
+  bio: user.bio ?? null,
+  avatar_url: user.avatarUrl ?? null,
+  timezone: user.timezone ?? null,
+  locale: user.locale ?? null,
+});
+
+/**
+ * Updates the profile of the authenticated user.
+ * @param {Request} req - The request object containing the profile fields to update.
+ * @param {Response} res - The response object to send back the updated profile.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the updated profile.
+ * @description
+ *   - Only updates the fields present in the request body; null clears an optional field.
+ *   - Throws a ParametricError if another user has the new email address.
+ *   - A new email address is kept pending until it is verified: a verification token is mailed to it,
+ *     and the current address stays in use until then. Giving the current address again cancels the change.
+ *   - Returns the full profile of the user, including the fields they keep private.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const updateMe = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { name, email, bio, avatar_url, timezone, locale, public_fields } = req.body;
+
+    const user = (await User.findByPk(req.currentUser!.id))!;
+
+    const emailChanged =
+      email !== undefined && email !== user.email && email !== user.pendingEmail;
+    if (email === user.email) {
+      user.pendingEmail = null;
+    }
+    if (emailChanged) {
+      const existingUser = await User.findOne({
+        where: { email, id: { [Op.ne]: user.id } },
+      });
+      if (existingUser) {
+        throw new ParametricError([
+          {
+            param: "email",
+            message: "User with this email address already exists.",
+            code: "RESOURCE_EXISTS",
+          },
+        ]);
+      }
+      user.pendingEmail = email;
+    }
+    if (name !== undefined) {
+      user.name = name;
+    }
+    if (bio !== undefined) {
+      user.bio = bio;
+    }
+    if (avatar_url !== undefined) {
+      user.avatarUrl = avatar_url;
+    }
+    if (timezone !== undefined) {
+      user.timezone = timezone;
+    }
+    if (locale !== undefined) {
+      user.locale = locale === null ? null : Intl.getCanonicalLocales(locale)[0];
+    }
+    if (public_fields !== undefined) {
+      user.publicFields = [...new Set<TProfileField>(public_fields)];
+    }
+    await user.save();
+
+    if (emailChanged) {
+      await user.requestEmailVerification();
+    }
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: user.id,
+          email: user.email,
+          email_verified: Boolean(user.emailVerifiedAt),
+          pending_email: user.pendingEmail ?? null,
+          ...profileFields(user),
+          public_fields: user.publicFields,
+          created_at: user.createdAt,
+          updated_at: user.updatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Retrieves the public profile of a user.
+ * @param {Request} req - The request object containing the user ID in the params.
+ * @param {Response} res - The response object to send back the profile.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the public profile.
+ * @description
+ *   - Throws a ParametricError if the user does not exist or deleted their account.
+ *   - Only returns the ID of the user and the profile fields they marked public.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const getPublicProfile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const user = await User.findByPk(req.params.id);
+    if (!user || user.deletedAt) {
+      throw new ParametricError([
+        {
+          param: "user",
+          message: "User not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    const fields = profileFields(user);
+    const data: Partial<Record<TProfileField | "id", unknown>> = { id: user.id };
+    for (const field of user.publicFields ?? []) {
+      data[field] = fields[field];
+    }
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,6 +1,11 @@
 import { NextFunction, Request, Response } from "express";
-import { Role } from "../models";
+import { Member, Role } from "../models";
 import { Snowflake } from "@theinternetfolks/snowflake";
+import { Op } from "@sequelize/core";
+import { NonParametricError, ParametricError } from "../errors";
+import { ADMIN_PRIORITY } from "../config";
+import { TPermission } from "../types";
+import { pageMeta, paginate, readPageRequest } from "../utils";
 
 export const createRole = async (
   req: Request,
@@ -8,10 +13,12 @@ export const createRole = async (
   next: NextFunction
 ): Promise<Response | undefined> => {
   try {
-    const { name } = req.body;
+    const { name, permissions, priority } = req.body;
     const role = await Role.create({
       id: Snowflake.generate(),
       name,
+      permissions: permissions ?? [],
+      priority: priority ?? 0,
     });
     return res.status(200).json({
       status: true,
@@ -19,6 +26,8 @@ export const createRole = async (
         data: {
           id: role.id,
           name: role.name,
+          permissions: role.permissions,
+          priority: role.priority,
           created_at: role.createdAt,
           updated_at: role.updatedAt,
         },
@@ -35,30 +44,341 @@ export const getAllRole = async (
   next: NextFunction
 ): Promise<Response | undefined> => {
   try {
-    let page = Number(req.body.page);
+    const pageRequest = readPageRequest(req);
 
-    if (!page) {
-      page = 1;
-    }
+    const page = await paginate(Role, { communityId: null }, pageRequest);
+    return res.status(200).json({
+      status: true,
+      content: {
+        meta: pageMeta(req, page, pageRequest),
+        data: page.rows.map((role) => ({
+          id: role.id,
+          name: role.name,
+          permissions: role.permissions,
+          priority: role.priority,
+          created_at: role.createdAt,
+          updated_at: role.updatedAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Ensures a custom role priority stays below admin-level and below the rank of the authenticated user.
+ * @param {Request} req - The request object, with the authenticated user's membership set by requirePermission.
+ * @param {number} [priority] - Optional. The requested priority of the role.
+ * @throws {ParametricError} - Throws a ParametricError if the priority cannot be granted.
+ */
+const assertGrantablePriority = async (
+  req: Request,
+  priority?: number
+): Promise<void> => {
+  if (priority === undefined) {
+    return;
+  }
+  const callerRank = await Member.rankOf(req.membership);
+  if (priority >= ADMIN_PRIORITY || priority >= callerRank) {
+    throw new ParametricError([
+      {
+        param: "priority",
+        message: "Priority must be below admin-level and below your own rank.",
+        code: "INVALID_INPUT",
+      },
+    ]);
+  }
+};
+
+/**
+ * Ensures a custom role only grants permissions the authenticated user holds, unless they own the community.
+ * @param {Request} req - The request object, with the authenticated user's membership set by requirePermission.
+ * @param {TPermission[]} [permissions] - Optional. The requested permissions of the role.
+ * @throws {ParametricError} - Throws a ParametricError if a permission is not held by the authenticated user.
+ */
+const assertGrantablePermissions = async (
+  req: Request,
+  permissions?: TPermission[]
+): Promise<void> => {
+  if (permissions === undefined) {
+    return;
+  }
+  const callerRank = await Member.rankOf(req.membership);
+  if (callerRank !== Infinity && !req.membership?.role?.hasPermissions(permissions)) {
+    throw new ParametricError([
+      {
+        param: "permissions",
+        message: "You cannot grant permissions your own role does not have.",
+        code: "INVALID_INPUT",
+      },
+    ]);
+  }
+};
+
+/**
+ * Ensures the authenticated user ranks above a custom role before changing or deleting it.
+ * @param {Request} req - The request object, with the authenticated user's membership set by requirePermission.
+ * @param {Role} role - The custom role about to be changed or deleted.
+ * @throws {NonParametricError} - Throws a NonParametricError if the role is ranked equal to or above the authenticated user.
+ */
+const assertManageableRole = async (req: Request, role: Role): Promise<void> => {
+  const callerRank = await Member.rankOf(req.membership);
+  if ((role.priority ?? 0) >= callerRank) {
+    throw new NonParametricError([
+      {
+        message: "You cannot manage a role ranked equal to or above your own.",
+        code: "NOT_ALLOWED_ACCESS",
+      },
+    ]);
+  }
+};
+
+/**
+ * Retrieves the roles usable in a community: the built-in roles and the community's custom roles.
+ * @param {Request} req - The request object containing the community ID.
+ * @param {Response} res - The response object to send back the list of roles.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the list of roles.
+ */
+export const getCommunityRoles = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
 
     const roles = await Role.findAll({
-      limit: 10,
-      offset: Number(page) <= 1 ? 0 : (Number(page) - 1) * 10,
+      where: {
+        [Op.or]: [{ communityId: null }, { communityId }],
+      },
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: roles.map((role) => ({
+          id: role.id,
+          name: role.name,
+          permissions: role.permissions,
+          priority: role.priority,
+          community: role.communityId ?? null,
+          created_at: role.createdAt,
+          updated_at: role.updatedAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Creates a custom role that only exists inside a community.
+ * @param {Request} req - The request object containing the community ID and role details.
+ * @param {Response} res - The response object to send back the created role.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the created role.
+ * @description
+ *   - Throws a ParametricError if the priority is admin-level or not below the authenticated user's rank.
+ *   - Throws a ParametricError if the permissions are not all held by the authenticated user, unless they own the community.
+ *   - Throws a ParametricError if a role with the same name is already usable in the community.
+ *   - Creates the role scoped to the community.
+ */
+export const createCommunityRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
+    const { name, permissions, priority } = req.body;
+
+    await assertGrantablePriority(req, priority);
+    await assertGrantablePermissions(req, permissions);
+
+    const existingRole = await Role.findOne({
+      where: {
+        name,
+        [Op.or]: [{ communityId: null }, { communityId }],
+      },
+    });
+    if (existingRole) {
+      throw new ParametricError([
+        {
+          param: "name",
+          message: "Role with this name already exists.",
+          code: "RESOURCE_EXISTS",
+        },
+      ]);
+    }
+
+    const role = await Role.create({
+      id: Snowflake.generate(),
+      name,
+      permissions: permissions ?? [],
+      priority: priority ?? 0,
+      communityId,
     });
 
-    const total = await Role.count();
     return res.status(200).json({
       status: true,
       content: {
-        meta: {
-          total: total,
-          pages: Math.ceil(total / 10),
-          page: page <= 1 ? 1 : page,
+        data: {
+          id: role.id,
+          name: role.name,
+          permissions: role.permissions,
+          priority: role.priority,
+          community: role.communityId,
+          created_at: role.createdAt,
+          updated_at: role.updatedAt,
         },
-        data: [...roles],
       },
     });
   } catch (error) {
     next(error);
   }
 };
+
+/**
+ * Updates the name, permissions or priority of a community's custom role.
+ * @param {Request} req - The request object containing the community ID, role ID and new role details.
+ * @param {Response} res - The response object to send back the updated role.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the updated role.
+ * @description
+ *   - Throws a ParametricError if the role is not a custom role of the community.
+ *     Built-in roles cannot be changed through this endpoint.
+ *   - Throws a NonParametricError if the role is ranked equal to or above the authenticated user.
+ *   - Throws a ParametricError if the priority is admin-level or not below the authenticated user's rank.
+ *   - Throws a ParametricError if the permissions are not all held by the authenticated user, unless they own the community.
+ *   - Throws a ParametricError if the new name is already used by another role usable in the community.
+ */
+export const updateCommunityRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
+    const roleId = req.params.roleId as string;
+    const { name, permissions, priority } = req.body;
+
+    const role = await Role.findOne({
+      where: {
+        id: roleId,
+        communityId,
+      },
+    });
+    if (!role) {
+      throw new ParametricError([
+        {
+          param: "role",
+          message: "Role not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    await assertManageableRole(req, role);
+    await assertGrantablePriority(req, priority);
+    await assertGrantablePermissions(req, permissions);
+
+    if (name && name !== role.name) {
+      const existingRole = await Role.findOne({
+        where: {
+          name,
+          [Op.or]: [{ communityId: null }, { communityId }],
+        },
+      });
+      if (existingRole) {
+        throw new ParametricError([
+          {
+            param: "name",
+            message: "Role with this name already exists.",
+            code: "RESOURCE_EXISTS",
+          },
+        ]);
+      }
+    }
+
+    await role.update({
+      name: name ?? role.name,
+      permissions: permissions ?? role.permissions,
+      priority: priority ?? role.priority,
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: role.id,
+          name: role.name,
+          permissions: role.permissions,
+          priority: role.priority,
+          community: role.communityId,
+          created_at: role.createdAt,
+          updated_at: role.updatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deletes a community's custom role.
+ * @param {Request} req - The request object containing the community ID and role ID.
+ * @param {Response} res - The response object to send back the status of the deletion.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with status true upon successful deletion.
+ * @description
+ *   - Throws a ParametricError if the role is not a custom role of the community.
+ *   - Throws a NonParametricError if the role is ranked equal to or above the authenticated user.
+ *   - Throws a NonParametricError if the role is still assigned to members.
+ */
+export const deleteCommunityRole = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
+    const roleId = req.params.roleId as string;
+
+    const role = await Role.findOne({
+      where: {
+        id: roleId,
+        communityId,
+      },
+    });
+    if (!role) {
+      throw new ParametricError([
+        {
+          param: "role",
+          message: "Role not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    await assertManageableRole(req, role);
+
+    const assigned = await Member.count({ where: { roleId: role.id } });
+    if (assigned > 0) {
+      throw new NonParametricError([
+        {
+          message: "Role is still assigned to members.",
+          code: "RESOURCE_EXISTS",
+        },
+      ]);
+    }
+
+    await role.destroy();
+    return res.status(200).json({ status: true });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,336 @@
+import { NextFunction, Request, Response } from "express";
+import { Community, Member, OwnershipTransfer, Role } from "../models";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { Op } from "@sequelize/core";
+import { NonParametricError, ParametricError } from "../errors";
+import { COMMUNITY_ADMIN, COMMUNITY_MODERATOR } from "../config";
+import { sequelize } from "../db";
+
+/**
+ * Starts the transfer of a community to another of its members.
+ * @param {Request} req - The request object containing the community ID and the recipient's user ID.
+ * @param {Response} res - The response object to send back the created transfer.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the pending transfer.
+ * @description
+ *   - Retrieves the community ID from the request parameters and the recipient from the request body.
+ *   - Throws a ParametricError if the recipient is the owner or not a member of the community.
+ *   - Throws a NonParametricError if a transfer of the community is already pending.
+ *   - Creates a pending transfer which the recipient has to accept.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const createTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const communityId = req.params.communityId as string;
+    const { user } = req.body;
+
+    const recipient = await Member.findOne({
+      where: {
+        communityId,
+        userId: user,
+      },
+    });
+    if (!recipient || user === userId) {
+      throw new ParametricError([
+        {
+          param: "user",
+          message: "User must be another member of the community.",
+          code: "INVALID_INPUT",
+        },
+      ]);
+    }
+
+    const pending = await OwnershipTransfer.findOne({
+      where: {
+        communityId,
+        status: "pending",
+      },
+    });
+    if (pending) {
+      throw new NonParametricError([
+        {
+          message: "A transfer of this community is already pending.",
+          code: "RESOURCE_EXISTS",
+        },
+      ]);
+    }
+
+    const transfer = await OwnershipTransfer.create({
+      id: Snowflake.generate(),
+      communityId,
+      fromUserId: userId,
+      toUserId: user,
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: transfer.id,
+          community: transfer.communityId,
+          from: transfer.fromUserId,
+          to: transfer.toUserId,
+          status: transfer.status,
+          created_at: transfer.createdAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Retrieves the ownership transfer history of a community.
+ * @param {Request} req - The request object containing the community ID.
+ * @param {Response} res - The response object to send back the list of transfers.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with every transfer of the community, newest first.
+ */
+export const getCommunityTransfers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const communityId = req.params.communityId as string;
+
+    const transfers = await OwnershipTransfer.findAll({
+      where: {
+        communityId,
+      },
+      order: [["createdAt", "DESC"]],
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: transfers.map((transfer) => ({
+          id: transfer.id,
+          community: transfer.communityId,
+          from: transfer.fromUserId,
+          to: transfer.toUserId,
+          status: transfer.status,
+          created_at: transfer.createdAt,
+          responded_at: transfer.respondedAt ?? null,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Retrieves the pending transfers sent to or by the authenticated user.
+ * @param {Request} req - The request object containing the authenticated user's ID.
+ * @param {Response} res - The response object to send back the list of transfers.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the pending transfers.
+ */
+export const getMyTransfers = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { id: userId } = req.currentUser!;
+
+    const transfers = await OwnershipTransfer.findAll({
+      where: {
+        status: "pending",
+        [Op.or]: [{ fromUserId: userId }, { toUserId: userId }],
+      },
+      order: [["createdAt", "DESC"]],
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: transfers.map((transfer) => ({
+          id: transfer.id,
+          community: transfer.communityId,
+          from: transfer.fromUserId,
+          to: transfer.toUserId,
+          status: transfer.status,
+          created_at: transfer.createdAt,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Finds a pending transfer, checking that the given user is one of its parties.
+ * @param {string} id - The ID of the transfer.
+ * @param {"fromUserId" | "toUserId"} party - Which side of the transfer the user must be.
+ * @param {string} userId - The ID of the authenticated user.
+ * @returns {Promise<OwnershipTransfer>} - The pending transfer.
+ * @throws {ParametricError} - Throws a ParametricError if no such pending transfer exists.
+ */
+const findPendingTransfer = async (
+  id: string,
+  party: "fromUserId" | "toUserId",
+  userId: string
+): Promise<OwnershipTransfer> => {
+  const transfer = await OwnershipTransfer.findOne({
+    where: {
+      id,
+      status: "pending",
+      [party]: userId,
+    },
+  });
+  if (!transfer) {
+    throw new ParametricError([
+      {
+        param: "transfer",
+        message: "Transfer not found.",
+        code: "RESOURCE_NOT_FOUND",
+      },
+    ]);
+  }
+  return transfer;
+};
+
+/**
+ * Accepts a pending transfer, making the authenticated user the owner of the community.
+ * @param {Request} req - The request object containing the transfer ID.
+ * @param {Response} res - The response object to send back the updated community.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with the community and its new owner.
+ * @description
+ *   - Throws a ParametricError if the transfer is not pending or not addressed to the authenticated user.
+ *   - Throws a NonParametricError if the sender no longer owns the community or the recipient left it;
+ *     the transfer is cancelled in that case.
+ *   - Inside a single transaction:
+ *     - Sets the recipient as the owner of the community.
+ *     - Gives the recipient the "Community Admin" role and the previous owner the "Community Moderator" role.
+ *     - Marks the transfer as accepted.
+ *   - Catches any errors and passes them to the next middleware.
+ */
+export const acceptTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const transfer = await findPendingTransfer(
+      req.params.id as string,
+      "toUserId",
+      userId
+    );
+
+    const community = await Community.findByPk(transfer.communityId);
+    const recipient = await Member.findOne({
+      where: {
+        communityId: transfer.communityId,
+        userId,
+      },
+    });
+    if (!community || community.ownerId !== transfer.fromUserId || !recipient) {
+      await transfer.update({ status: "cancelled", respondedAt: new Date() });
+      throw new NonParametricError([
+        {
+          message: "This transfer is no longer valid.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+
+    const adminRole = await Role.getDefault(COMMUNITY_ADMIN);
+    const moderatorRole = await Role.getDefault(COMMUNITY_MODERATOR);
+
+    await sequelize.transaction(async () => {
+      await community.update({ ownerId: userId });
+      await recipient.update({ roleId: adminRole.id });
+      await Member.update(
+        { roleId: moderatorRole.id },
+        {
+          where: {
+            communityId: community.id,
+            userId: transfer.fromUserId,
+          },
+        }
+      );
+      await transfer.update({ status: "accepted", respondedAt: new Date() });
+    });
+
+    return res.status(200).json({
+      status: true,
+      content: {
+        data: {
+          id: community.id,
+          name: community.name,
+          slug: community.slug,
+          owner: community.ownerId,
+          created_at: community.createdAt,
+          updated_at: community.updatedAt,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Declines a pending transfer addressed to the authenticated user.
+ * @param {Request} req - The request object containing the transfer ID.
+ * @param {Response} res - The response object to send back the status of the operation.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with status true once declined.
+ */
+export const declineTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const transfer = await findPendingTransfer(
+      req.params.id as string,
+      "toUserId",
+      userId
+    );
+
+    await transfer.update({ status: "declined", respondedAt: new Date() });
+    return res.status(200).json({ status: true });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancels a pending transfer started by the authenticated user.
+ * @param {Request} req - The request object containing the transfer ID.
+ * @param {Response} res - The response object to send back the status of the operation.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<Response | undefined>} - Returns a JSON response with status true once cancelled.
+ */
+export const cancelTransfer = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<Response | undefined> => {
+  try {
+    const { id: userId } = req.currentUser!;
+    const transfer = await findPendingTransfer(
+      req.params.id as string,
+      "fromUserId",
+      userId
+    );
+
+    await transfer.update({ status: "cancelled", respondedAt: new Date() });
+    return res.status(200).json({ status: true });
+  } catch (error) {
+    next(error);
+  }
+};
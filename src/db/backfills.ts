@@ -0,0 +1,29 @@
+import { sequelize } from "./sequelize";
+
+/**
+ * Prepares the slugs of existing communities for the unique slug constraint. Must run before the models are synced.
+ *
+ * Communities created before slugs were unique may share a slug, have none, or have one made of digits only,
+ * which would be mistaken for a community ID. The oldest community keeps a shared slug, the others get their ID appended.
+ */
+export const backfillCommunitySlugs = async (): Promise<void> => {
+  await sequelize.query(`
+    DO $$
+    BEGIN
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'Communities' AND column_name = 'slug'
+      ) THEN
+        UPDATE "Communities" AS "c"
+        SET "slug" = COALESCE(NULLIF("c"."slug", ''), 'community') || '-' || "c"."id"
+        FROM (
+          SELECT "id", ROW_NUMBER() OVER (PARTITION BY "slug" ORDER BY "createdAt", "id") AS "position"
+          FROM "Communities"
+        ) AS "ranked"
+        WHERE "ranked"."id" = "c"."id"
+          AND ("ranked"."position" > 1 OR "c"."slug" IS NULL OR "c"."slug" = '' OR "c"."slug" ~ '^[0-9]+$');
+      END IF;
+    END
+    $$;
+  `);
+};
@@ -0,0 +1,10 @@
+import { sequelize } from "./sequelize";
+
+/**
+ * Enables the Postgres extensions the models rely on. Must run before the models are synced.
+ *
+ * pg_trgm provides the trigram indexes used to search communities and users by name with ILIKE.
+ */
+export const enableExtensions = async (): Promise<void> => {
+  await sequelize.query("CREATE EXTENSION IF NOT EXISTS pg_trgm;");
+};
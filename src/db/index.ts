@@ -1 +1,3 @@
-export * from "./sequelize";
\ No newline at end of file
+export * from "./sequelize";
+export * from "./extensions";
+export * from "./backfills";
\ No newline at end of file
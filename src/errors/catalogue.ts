@@ -0,0 +1,22 @@
+import { TErrorCode } from "../types";
+
+/**
+ * Every error code the API can respond with, the HTTP status it maps to and the message used when none is given.
+ * Codes are stable: clients may rely on them, while messages may change.
+ */
+export const ERROR_CATALOGUE: Record<TErrorCode, { status: number; message: string }> = {
+  INVALID_INPUT: { status: 422, message: "The request contains invalid input." },
+  RESOURCE_EXISTS: { status: 409, message: "The resource already exists." },
+  INVALID_CREDENTIALS: { status: 401, message: "The credentials you provided are invalid." },
+  RESOURCE_NOT_FOUND: { status: 404, message: "The resource was not found." },
+  NOT_SIGNEDIN: { status: 401, message: "You need to sign in to proceed." },
+  NOT_ALLOWED_ACCESS: { status: 403, message: "You are not authorized to perform this action." },
+  INVALID_TOKEN: { status: 401, message: "Your session token is invalid." },
+  TOKEN_EXPIRED: { status: 401, message: "Your session has expired." },
+  EMAIL_NOT_VERIFIED: { status: 403, message: "You need to verify your email address to proceed." },
+  TOO_MANY_ATTEMPTS: { status: 429, message: "Too many failed sign in attempts. Please try again later." },
+  MFA_REQUIRED: { status: 403, message: "Two-factor authentication is required." },
+  ACCOUNT_SUSPENDED: { status: 403, message: "Your account is suspended." },
+  BAD_REQUEST: { status: 400, message: "The request could not be processed." },
+  INTERNAL_ERROR: { status: 500, message: "Something went wrong on our side. Please try again later." },
+};
@@ -1,3 +1,6 @@
+import { ERROR_CATALOGUE } from "./catalogue";
+import { TLocale } from "../types";
+
 /**
  * CustomError is an abstract base class for defining custom error types.
  * Extend this class to create specific error classes with custom error serialization.
@@ -10,6 +13,7 @@
  *   - Constructs a new CustomError instance with the provided message, optional description, and statusCode.
  *   - Ensures correct prototype chain for instanceof checks.
  *   - Captures stack trace for debugging purposes.
+ *   - Derives the HTTP status from the error catalogue entry of the first serialized error.
  * 
  * @abstract
  * @method serializeErrors
@@ -26,15 +30,25 @@ export abstract class CustomError extends Error {
     Error.captureStackTrace(this, this.constructor);
   }
 
+  /**
+   * The HTTP status to respond with, from the error catalogue entry of the first error.
+   * @returns {number} - The status, 400 for codes missing from the catalogue.
+   */
+  get statusCode(): number {
+    const [first] = this.serializeErrors();
+    return ERROR_CATALOGUE[first?.code as keyof typeof ERROR_CATALOGUE]?.status ?? 400;
+  }
+
   /**
    * Abstract method that must be implemented by subclasses.
    * Should serialize error information into a structured format.
    * 
    * @abstract
    * @method serializeErrors
+   * @param {TLocale} [locale] - The locale to translate the messages into, English by default.
    * @returns {Array<{ param?: string; message: string; code: string }>} - An array of error objects, each containing 'message', 'code', and optionally 'param'.
    */
-  abstract serializeErrors(): {
+  abstract serializeErrors(locale?: TLocale): {
     param?: string;
     message: string;
     code: string;
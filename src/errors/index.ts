@@ -1,3 +1,4 @@
 export * from "./custom-error";
 export * from "./non-parametric-error";
-export * from "./parametric-error";
\ No newline at end of file
+export * from "./parametric-error";
+export * from "./catalogue";
\ No newline at end of file
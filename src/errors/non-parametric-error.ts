@@ -1,6 +1,9 @@
 import { FieldValidationError } from "express-validator";
 import { CustomError } from "./custom-error";
 import { INonParametricError } from "../interfaces";
+import { ERROR_CATALOGUE } from "./catalogue";
+import { translate } from "../locales";
+import { TLocale } from "../types";
 
 
 
@@ -14,6 +17,8 @@ import { INonParametricError } from "../interfaces";
  * @description
  *   - Constructs a new NonParametricError instance with an array of errors.
  *   - Ensures correct prototype chain for instanceof checks.
+ *   - Errors without a message get the default message of their code from the error catalogue.
+ *   - Messages are translated into the requested locale, filling in their params.
  * 
  * @method serializeErrors
  * @returns {Array<{ message: string; code: string }>} - An array of error objects, each containing 'message' and 'code'.
@@ -30,11 +35,17 @@ export class NonParametricError extends CustomError {
      * Serializes the NonParametricError instance into an array of error objects.
      * 
      * @method serializeErrors
+     * @param {TLocale} [locale] - The locale to translate the messages into, English by default.
      * @returns {Array<{ message: string; code: string }>} - An array of error objects, each containing 'message' and 'code'.
      */
-    serializeErrors() {
+    serializeErrors(locale: TLocale = "en") {
       return this.errors.map((err: INonParametricError) => ({
-        message: err.message,
+        message: translate(
+          locale,
+          err.code,
+          err.message ?? ERROR_CATALOGUE[err.code].message,
+          err.params
+        ),
         code: err.code,
       }));
     }
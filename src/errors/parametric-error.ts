@@ -1,5 +1,8 @@
 import { CustomError } from "./custom-error";
 import { IParametricError } from "../interfaces";
+import { ERROR_CATALOGUE } from "./catalogue";
+import { translate } from "../locales";
+import { TLocale } from "../types";
 
 /**
  * ParametricError is a custom error class that extends CustomError.
@@ -10,6 +13,8 @@ import { IParametricError } from "../interfaces";
  * @description
  *   - Constructs a new ParametricError instance with an array of errors.
  *   - Ensures correct prototype chain for instanceof checks.
+ *   - Errors without a message get the default message of their code from the error catalogue.
+ *   - Messages are translated into the requested locale, filling in their params.
  * 
  * @method serializeErrors
  * @returns {Array<{ param: string; message: string; code: string }>} - An array of error objects, each containing 'param', 'message', and 'code'.
@@ -26,12 +31,18 @@ export class ParametricError extends CustomError {
      * Serializes the ParametricError instance into an array of error objects.
      * 
      * @method serializeErrors
+     * @param {TLocale} [locale] - The locale to translate the messages into, English by default.
      * @returns {Array<{ param: string; message: string; code: string }>} - An array of error objects, each containing 'param', 'message', and 'code'.
      */
-    serializeErrors() {
+    serializeErrors(locale: TLocale = "en") {
       return this.errors.map((err: IParametricError) => ({
         param: err.param,
-        message: err.message,
+        message: translate(
+          locale,
+          err.code,
+          err.message ?? ERROR_CATALOGUE[err.code].message,
+          err.params
+        ),
         code: err.code,
       }));
     }
@@ -7,9 +7,10 @@ const rootDir = path.resolve(__dirname, "..");
 dotenv.config({ path: path.join(rootDir, ".env.local") });
 
 import { PORT } from "./config";
-import { sequelize } from "./db";
+import { backfillCommunitySlugs, enableExtensions, sequelize } from "./db";
 import { app } from "./providers";
-import { Community, Member, Role, User } from "./models";
+import { loadPasswordDenylist } from "./utils";
+import { AuditLog, Community, CommunitySlug, Invite, JoinRequest, Member, OwnershipTransfer, RefreshToken, RevokedToken, Role, SigninThrottle, User, UserSession, UserToken } from "./models";
 
 /**
  * Initializes the Express server with Sequelize database connection.
@@ -18,13 +19,18 @@ import { Community, Member, Role, User } from "./models";
 const initExpress = async () => {
   try {
     const port = Number(PORT);
+    loadPasswordDenylist(); // Refuses to start without the common-password denylist
 
-    sequelize.addModels([User, Role, Community, Member]);
+    sequelize.addModels([User, Role, Community, CommunitySlug, Member, OwnershipTransfer, JoinRequest, Invite, AuditLog, UserSession, UserToken, RefreshToken, RevokedToken, SigninThrottle]);
 
+    await enableExtensions(); // Search indexes need pg_trgm before the tables are synced
+    await backfillCommunitySlugs(); // Makes existing slugs unique before the unique constraint is synced
     // await sequelize.sync({ force: true }); // Uncomment to clear and re-initialize tables
     await sequelize.sync({ alter: true }); // Syncs models with database without clearing existing data
 
     await sequelize.authenticate();
+    await Role.seedDefaults(); // Ensures the built-in roles exist with their permissions
+    await User.syncPlatformAdmins(); // Promotes the users listed in NODE_PLATFORM_ADMIN_EMAILS
     console.log("Connected to DB");
 
     app.listen(port, () => {
@@ -2,11 +2,13 @@ import { TNonParametricErrors, TParametricErrors } from "../types";
 
 export interface IParametricError {
     param: string,
-    message: string,
-    code: TParametricErrors
+    message?: string,
+    code: TParametricErrors,
+    params?: Record<string, string | number>
 }
 
 export interface INonParametricError {
-    message: string,
-    code: TNonParametricErrors
+    message?: string,
+    code: TNonParametricErrors,
+    params?: Record<string, string | number>
 }
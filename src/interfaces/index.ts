@@ -1,2 +1,5 @@
 export * from "./user";
-export * from "./error";
\ No newline at end of file
+export * from "./error";
+export * from "./mailer";
+export * from "./locale";
+export * from "./pagination";
\ No newline at end of file
@@ -0,0 +1,10 @@
+import { TErrorCode } from "../types";
+
+/**
+ * Translations of user-facing messages into one language. Messages are keyed by their English text,
+ * which may contain `{placeholders}`; codes map to the fallback used for messages without a translation.
+ */
+export interface MessageCatalogue {
+	codes: Record<TErrorCode, string>;
+	messages: Record<string, string>;
+}
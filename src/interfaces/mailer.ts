@@ -0,0 +1,9 @@
+export interface Mail {
+	to: string;
+	subject: string;
+	text: string;
+}
+
+export interface MailTransport {
+	send(mail: Mail & { from: string }): Promise<void>;
+}
@@ -0,0 +1,34 @@
+import { Attributes, Col, FindAttributeOptions, Fn, Literal, Model } from "@sequelize/core";
+import { TCursorDirection } from "../types";
+
+export interface Cursor {
+	id: string;
+	direction: TCursorDirection;
+	sort?: string;
+	value?: string | number;
+}
+
+export interface PageRequest {
+	limit: number;
+	cursor?: Cursor;
+}
+
+export interface Page<T> {
+	rows: T[];
+	total: number;
+	next?: string;
+	prev?: string;
+}
+
+export interface PageSortKey<M extends Model> {
+	name: string;
+	type: "string" | "number";
+	expression: Col | Fn | Literal;
+	value: (row: M) => string | number;
+}
+
+export interface PageOptions<M extends Model> {
+	direction?: "ASC" | "DESC";
+	sortKey?: PageSortKey<M>;
+	attributes?: FindAttributeOptions<Attributes<M>>;
+}
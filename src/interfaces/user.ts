@@ -1,5 +1,12 @@
 export interface UserPayloadForJwt {
 	id: string;
+	sid: string;
+}
+
+export interface SessionPayload extends UserPayloadForJwt {
+	jti: string;
+	iat: number;
+	exp: number;
 }
 
 export interface User {
@@ -0,0 +1,142 @@
+import { MessageCatalogue } from "../interfaces";
+
+export const de: MessageCatalogue = {
+  codes: {
+    INVALID_INPUT: "Die Anfrage enthält ungültige Angaben.",
+    RESOURCE_EXISTS: "Die Ressource existiert bereits.",
+    INVALID_CREDENTIALS: "Die angegebenen Zugangsdaten sind ungültig.",
+    RESOURCE_NOT_FOUND: "Die Ressource wurde nicht gefunden.",
+    NOT_SIGNEDIN: "Sie müssen sich anmelden, um fortzufahren.",
+    NOT_ALLOWED_ACCESS: "Sie sind nicht berechtigt, diese Aktion auszuführen.",
+    INVALID_TOKEN: "Ihr Sitzungstoken ist ungültig.",
+    TOKEN_EXPIRED: "Ihre Sitzung ist abgelaufen.",
+    EMAIL_NOT_VERIFIED: "Sie müssen Ihre E-Mail-Adresse bestätigen, um fortzufahren.",
+    TOO_MANY_ATTEMPTS: "Zu viele fehlgeschlagene Anmeldeversuche. Bitte versuchen Sie es später erneut.",
+    MFA_REQUIRED: "Zwei-Faktor-Authentifizierung ist erforderlich.",
+    ACCOUNT_SUSPENDED: "Ihr Konto ist gesperrt.",
+    BAD_REQUEST: "Die Anfrage konnte nicht verarbeitet werden.",
+    INTERNAL_ERROR: "Bei uns ist etwas schiefgelaufen. Bitte versuchen Sie es später erneut.",
+  },
+  messages: {
+    // Authentication
+    "You need to sign in to proceed.": "Sie müssen sich anmelden, um fortzufahren.",
+    "You are not authorized to perform this action.": "Sie sind nicht berechtigt, diese Aktion auszuführen.",
+    "The credentials you provided are invalid.": "Die angegebenen Zugangsdaten sind ungültig.",
+    "User with this email address already exists.": "Es gibt bereits einen Benutzer mit dieser E-Mail-Adresse.",
+    "User not found.": "Benutzer nicht gefunden.",
+    "Your session token is invalid.": "Ihr Sitzungstoken ist ungültig.",
+    "Your session has expired.": "Ihre Sitzung ist abgelaufen.",
+    "The Authorization header must be of the form 'Bearer <token>'.": "Der Authorization-Header muss die Form 'Bearer <token>' haben.",
+    "Session not found.": "Sitzung nicht gefunden.",
+    "Too many failed sign in attempts. Please try again later.": "Zu viele fehlgeschlagene Anmeldeversuche. Bitte versuchen Sie es später erneut.",
+    "Password does not match.": "Das Passwort stimmt nicht überein.",
+    "The reset token is invalid or has expired.": "Das Token zum Zurücksetzen ist ungültig oder abgelaufen.",
+    "The verification token is invalid or has expired.": "Das Bestätigungstoken ist ungültig oder abgelaufen.",
+    "Your email address is already verified.": "Ihre E-Mail-Adresse ist bereits bestätigt.",
+    "You need to verify your email address to proceed.": "Sie müssen Ihre E-Mail-Adresse bestätigen, um fortzufahren.",
+    "Your sign in challenge is invalid.": "Ihre Anmeldeaufforderung ist ungültig.",
+    "Your sign in challenge has expired, please sign in again.": "Ihre Anmeldeaufforderung ist abgelaufen, bitte melden Sie sich erneut an.",
+    "The code you provided is invalid.": "Der angegebene Code ist ungültig.",
+    "Two-factor authentication is not enabled.": "Die Zwei-Faktor-Authentifizierung ist nicht aktiviert.",
+    "Two-factor authentication is already enabled.": "Die Zwei-Faktor-Authentifizierung ist bereits aktiviert.",
+    "Start enrolling in two-factor authentication first.": "Beginnen Sie zuerst mit der Einrichtung der Zwei-Faktor-Authentifizierung.",
+    "Transfer or delete the communities you own before deleting your account.": "Übertragen oder löschen Sie Ihre Communities, bevor Sie Ihr Konto löschen.",
+    "Appoint another admin where you are the last one before deleting your account.": "Ernennen Sie überall, wo Sie der letzte Admin sind, einen weiteren Admin, bevor Sie Ihr Konto löschen.",
+    "Your account has been banned.": "Ihr Konto wurde gesperrt.",
+    "Your account has been banned. Reason: {reason}": "Ihr Konto wurde gesperrt. Grund: {reason}",
+    "Your account is suspended until {until}.": "Ihr Konto ist bis {until} gesperrt.",
+    "Your account is suspended until {until}. Reason: {reason}": "Ihr Konto ist bis {until} gesperrt. Grund: {reason}",
+    "You cannot perform this action on your own account.": "Sie können diese Aktion nicht auf Ihr eigenes Konto anwenden.",
+    "Platform admins cannot be suspended or banned.": "Plattform-Admins können nicht gesperrt oder verbannt werden.",
+
+    // Communities and members
+    "Community not found.": "Community nicht gefunden.",
+    "Community is archived.": "Die Community ist archiviert.",
+    "Community with this slug already exists.": "Es gibt bereits eine Community mit diesem Slug.",
+    "Member not found.": "Mitglied nicht gefunden.",
+    "User is already added in the community.": "Der Benutzer ist bereits Mitglied der Community.",
+    "User must be another member of the community.": "Der Benutzer muss ein anderes Mitglied der Community sein.",
+    "You cannot remove a member ranked equal to or above you.": "Sie können kein Mitglied entfernen, das gleich oder höher eingestuft ist als Sie.",
+    "You cannot change your own role.": "Sie können Ihre eigene Rolle nicht ändern.",
+    "You cannot change the role of a member ranked equal to or above you.": "Sie können die Rolle eines Mitglieds, das gleich oder höher eingestuft ist als Sie, nicht ändern.",
+    "You cannot grant a role ranked equal to or above your own.": "Sie können keine Rolle vergeben, die gleich oder höher eingestuft ist als Ihre eigene.",
+    "The last admin of a community cannot be removed.": "Der letzte Admin einer Community kann nicht entfernt werden.",
+    "The last admin of a community cannot be demoted.": "Der letzte Admin einer Community kann nicht herabgestuft werden.",
+    "The community owner cannot leave or be removed. Transfer the ownership first.": "Der Eigentümer kann die Community weder verlassen noch entfernt werden. Übertragen Sie zuerst das Eigentum.",
+    "Transfer not found.": "Übertragung nicht gefunden.",
+    "This transfer is no longer valid.": "Diese Übertragung ist nicht mehr gültig.",
+    "A transfer of this community is already pending.": "Eine Übertragung dieser Community steht bereits aus.",
+    "A request to join this community is already pending.": "Eine Beitrittsanfrage für diese Community steht bereits aus.",
+    "Join request not found.": "Beitrittsanfrage nicht gefunden.",
+    "Invite not found.": "Einladung nicht gefunden.",
+    "Invite is invalid or has expired.": "Die Einladung ist ungültig oder abgelaufen.",
+    "This community requires two-factor authentication for its admins and moderators.": "Diese Community verlangt Zwei-Faktor-Authentifizierung für ihre Admins und Moderatoren.",
+    "Only the owner can change the two-factor requirement.": "Nur der Eigentümer kann die Zwei-Faktor-Pflicht ändern.",
+    "Enable two-factor authentication on your account first.": "Aktivieren Sie zuerst die Zwei-Faktor-Authentifizierung für Ihr Konto.",
+
+    // Roles
+    "Role not found.": "Rolle nicht gefunden.",
+    "Role with this name already exists.": "Es gibt bereits eine Rolle mit diesem Namen.",
+    "Role is still assigned to members.": "Die Rolle ist noch Mitgliedern zugewiesen.",
+    "Priority must be below admin-level and below your own rank.": "Die Priorität muss unter der Admin-Stufe und unter Ihrem eigenen Rang liegen.",
+    "You cannot grant permissions your own role does not have.": "Sie können keine Berechtigungen vergeben, die Ihre eigene Rolle nicht hat.",
+    "You cannot manage a role ranked equal to or above your own.": "Sie können keine Rolle verwalten, die gleich oder höher als Ihre eigene eingestuft ist.",
+
+    // Validation
+    "Name must be at least 2 characters long.": "Der Name muss mindestens 2 Zeichen lang sein.",
+    "Name should be at least 2 characters.": "Der Name sollte mindestens 2 Zeichen lang sein.",
+    "Please provide a valid email address.": "Bitte geben Sie eine gültige E-Mail-Adresse an.",
+    "Please provide a password.": "Bitte geben Sie ein Passwort an.",
+    "Please provide your password.": "Bitte geben Sie Ihr Passwort an.",
+    "Please provide your current password.": "Bitte geben Sie Ihr aktuelles Passwort an.",
+    "Please provide the reset token.": "Bitte geben Sie das Token zum Zurücksetzen an.",
+    "Please provide the verification token.": "Bitte geben Sie das Bestätigungstoken an.",
+    "Please provide the token returned by signin.": "Bitte geben Sie das bei der Anmeldung erhaltene Token an.",
+    "Please provide a code from your authenticator app or a recovery code.": "Bitte geben Sie einen Code aus Ihrer Authenticator-App oder einen Wiederherstellungscode an.",
+    "Password should be at least {min} characters.": "Das Passwort sollte mindestens {min} Zeichen lang sein.",
+    "Password should be at most {max} bytes long.": "Das Passwort sollte höchstens {max} Bytes lang sein.",
+    "Password should contain a lowercase letter.": "Das Passwort sollte einen Kleinbuchstaben enthalten.",
+    "Password should contain an uppercase letter.": "Das Passwort sollte einen Großbuchstaben enthalten.",
+    "Password should contain a digit.": "Das Passwort sollte eine Ziffer enthalten.",
+    "Password should contain a symbol.": "Das Passwort sollte ein Sonderzeichen enthalten.",
+    "This password is too common, please choose another one.": "Dieses Passwort ist zu verbreitet, bitte wählen Sie ein anderes.",
+    "Please specify community id.": "Bitte geben Sie die Community-ID an.",
+    "Community ID must be provided.": "Die Community-ID muss angegeben werden.",
+    "Community ID must be a string.": "Die Community-ID muss eine Zeichenkette sein.",
+    "User ID must be provided.": "Die Benutzer-ID muss angegeben werden.",
+    "User ID must be a string.": "Die Benutzer-ID muss eine Zeichenkette sein.",
+    "Role ID must be provided.": "Die Rollen-ID muss angegeben werden.",
+    "Role ID must be a string.": "Die Rollen-ID muss eine Zeichenkette sein.",
+    "Member ID must be provided.": "Die Mitglieds-ID muss angegeben werden.",
+    "Member ID must be a string.": "Die Mitglieds-ID muss eine Zeichenkette sein.",
+    "Permissions must be an array.": "Die Berechtigungen müssen eine Liste sein.",
+    "Permissions must be any of: {permissions}.": "Die Berechtigungen müssen aus folgenden stammen: {permissions}.",
+    "Priority must be an integer between 0 and {max}.": "Die Priorität muss eine ganze Zahl zwischen 0 und {max} sein.",
+    "Visibility must be one of public, private or hidden.": "Die Sichtbarkeit muss public, private oder hidden sein.",
+    "Slug must be at most {max} characters long.": "Der Slug darf höchstens {max} Zeichen lang sein.",
+    "Slug may only contain lowercase letters, digits and dashes, and not only digits.": "Der Slug darf nur Kleinbuchstaben, Ziffern und Bindestriche enthalten, aber nicht nur Ziffern.",
+    "Require MFA must be a boolean.": "Require MFA muss ein boolescher Wert sein.",
+    "Expiry must be a positive number of seconds.": "Die Gültigkeitsdauer muss eine positive Anzahl von Sekunden sein.",
+    "Maximum uses must be a positive integer.": "Die maximale Anzahl an Verwendungen muss eine positive ganze Zahl sein.",
+    "Bio must be at most {max} characters long.": "Die Biografie darf höchstens {max} Zeichen lang sein.",
+    "Avatar URL must be a valid http(s) URL.": "Die Avatar-URL muss eine gültige http(s)-URL sein.",
+    "Timezone must be a valid IANA time zone, e.g. Europe/Berlin.": "Die Zeitzone muss eine gültige IANA-Zeitzone sein, z. B. Europe/Berlin.",
+    "Locale must be a valid language tag, e.g. en-GB.": "Die Sprache muss ein gültiges Sprachkürzel sein, z. B. de-DE.",
+    "Public fields must be a list of: {fields}.": "Die öffentlichen Felder müssen eine Liste aus folgenden sein: {fields}.",
+    "Search query must be a string.": "Die Suchanfrage muss eine Zeichenkette sein.",
+    "Status must be one of active, suspended or banned.": "Der Status muss active, suspended oder banned sein.",
+    "Until must be a date in the future.": "Until muss ein Datum in der Zukunft sein.",
+    "Reason must be at most 500 characters long.": "Der Grund darf höchstens 500 Zeichen lang sein.",
+    "Limit must be an integer between 1 and {max}.": "Das Limit muss eine ganze Zahl zwischen 1 und {max} sein.",
+    "Cursor is invalid.": "Der Cursor ist ungültig.",
+    "Owner must be a user ID.": "Der Eigentümer muss eine Benutzer-ID sein.",
+    "Visibility must be one of public or private.": "Die Sichtbarkeit muss public oder private sein.",
+    "Dates must be given in ISO 8601 format.": "Datumsangaben müssen im Format ISO 8601 erfolgen.",
+    "Member counts must be non-negative integers.": "Mitgliederzahlen müssen nicht-negative ganze Zahlen sein.",
+    "Sort must be one of: {sorts}.": "Die Sortierung muss eine der folgenden sein: {sorts}.",
+
+    // General
+    "Route not found": "Route nicht gefunden",
+    "The request body could not be parsed.": "Der Inhalt der Anfrage konnte nicht gelesen werden.",
+  },
+};
@@ -0,0 +1,142 @@
+import { MessageCatalogue } from "../interfaces";
+
+export const es: MessageCatalogue = {
+  codes: {
+    INVALID_INPUT: "La solicitud contiene datos no válidos.",
+    RESOURCE_EXISTS: "El recurso ya existe.",
+    INVALID_CREDENTIALS: "Las credenciales proporcionadas no son válidas.",
+    RESOURCE_NOT_FOUND: "No se encontró el recurso.",
+    NOT_SIGNEDIN: "Debes iniciar sesión para continuar.",
+    NOT_ALLOWED_ACCESS: "No tienes permiso para realizar esta acción.",
+    INVALID_TOKEN: "Tu token de sesión no es válido.",
+    TOKEN_EXPIRED: "Tu sesión ha caducado.",
+    EMAIL_NOT_VERIFIED: "Debes verificar tu dirección de correo electrónico para continuar.",
+    TOO_MANY_ATTEMPTS: "Demasiados intentos fallidos de inicio de sesión. Inténtalo de nuevo más tarde.",
+    MFA_REQUIRED: "Se requiere la autenticación en dos pasos.",
+    ACCOUNT_SUSPENDED: "Tu cuenta está suspendida.",
+    BAD_REQUEST: "No se pudo procesar la solicitud.",
+    INTERNAL_ERROR: "Algo salió mal por nuestra parte. Inténtalo de nuevo más tarde.",
+  },
+  messages: {
+    // Authentication
+    "You need to sign in to proceed.": "Debes iniciar sesión para continuar.",
+    "You are not authorized to perform this action.": "No tienes permiso para realizar esta acción.",
+    "The credentials you provided are invalid.": "Las credenciales proporcionadas no son válidas.",
+    "User with this email address already exists.": "Ya existe un usuario con esta dirección de correo electrónico.",
+    "User not found.": "Usuario no encontrado.",
+    "Your session token is invalid.": "Tu token de sesión no es válido.",
+    "Your session has expired.": "Tu sesión ha caducado.",
+    "The Authorization header must be of the form 'Bearer <token>'.": "La cabecera Authorization debe tener la forma 'Bearer <token>'.",
+    "Session not found.": "Sesión no encontrada.",
+    "Too many failed sign in attempts. Please try again later.": "Demasiados intentos fallidos de inicio de sesión. Inténtalo de nuevo más tarde.",
+    "Password does not match.": "La contraseña no coincide.",
+    "The reset token is invalid or has expired.": "El token de restablecimiento no es válido o ha caducado.",
+    "The verification token is invalid or has expired.": "El token de verificación no es válido o ha caducado.",
+    "Your email address is already verified.": "Tu dirección de correo electrónico ya está verificada.",
+    "You need to verify your email address to proceed.": "Debes verificar tu dirección de correo electrónico para continuar.",
+    "Your sign in challenge is invalid.": "Tu desafío de inicio de sesión no es válido.",
+    "Your sign in challenge has expired, please sign in again.": "Tu desafío de inicio de sesión ha caducado, vuelve a iniciar sesión.",
+    "The code you provided is invalid.": "El código proporcionado no es válido.",
+    "Two-factor authentication is not enabled.": "La autenticación en dos pasos no está activada.",
+    "Two-factor authentication is already enabled.": "La autenticación en dos pasos ya está activada.",
+    "Start enrolling in two-factor authentication first.": "Primero inicia la configuración de la autenticación en dos pasos.",
+    "Transfer or delete the communities you own before deleting your account.": "Transfiere o elimina las comunidades de las que eres propietario antes de eliminar tu cuenta.",
+    "Appoint another admin where you are the last one before deleting your account.": "Nombra otro administrador allí donde seas el último antes de eliminar tu cuenta.",
+    "Your account has been banned.": "Tu cuenta ha sido bloqueada.",
+    "Your account has been banned. Reason: {reason}": "Tu cuenta ha sido bloqueada. Motivo: {reason}",
+    "Your account is suspended until {until}.": "Tu cuenta está suspendida hasta {until}.",
+    "Your account is suspended until {until}. Reason: {reason}": "Tu cuenta está suspendida hasta {until}. Motivo: {reason}",
+    "You cannot perform this action on your own account.": "No puedes realizar esta acción sobre tu propia cuenta.",
+    "Platform admins cannot be suspended or banned.": "Los administradores de la plataforma no pueden ser suspendidos ni expulsados.",
+
+    // Communities and members
+    "Community not found.": "Comunidad no encontrada.",
+    "Community is archived.": "La comunidad está archivada.",
+    "Community with this slug already exists.": "Ya existe una comunidad con este slug.",
+    "Member not found.": "Miembro no encontrado.",
+    "User is already added in the community.": "El usuario ya forma parte de la comunidad.",
+    "User must be another member of the community.": "El usuario debe ser otro miembro de la comunidad.",
+    "You cannot remove a member ranked equal to or above you.": "No puedes eliminar a un miembro de rango igual o superior al tuyo.",
+    "You cannot change your own role.": "No puedes cambiar tu propio rol.",
+    "You cannot change the role of a member ranked equal to or above you.": "No puedes cambiar el rol de un miembro de rango igual o superior al tuyo.",
+    "You cannot grant a role ranked equal to or above your own.": "No puedes asignar un rol de rango igual o superior al tuyo.",
+    "The last admin of a community cannot be removed.": "No se puede eliminar al último administrador de una comunidad.",
+    "The last admin of a community cannot be demoted.": "No se puede degradar al último administrador de una comunidad.",
+    "The community owner cannot leave or be removed. Transfer the ownership first.": "El propietario de la comunidad no puede salir ni ser eliminado. Transfiere primero la propiedad.",
+    "Transfer not found.": "Transferencia no encontrada.",
+    "This transfer is no longer valid.": "Esta transferencia ya no es válida.",
+    "A transfer of this community is already pending.": "Ya hay una transferencia pendiente de esta comunidad.",
+    "A request to join this community is already pending.": "Ya hay una solicitud pendiente para unirse a esta comunidad.",
+    "Join request not found.": "Solicitud de ingreso no encontrada.",
+    "Invite not found.": "Invitación no encontrada.",
+    "Invite is invalid or has expired.": "La invitación no es válida o ha caducado.",
+    "This community requires two-factor authentication for its admins and moderators.": "Esta comunidad exige la autenticación en dos pasos a sus administradores y moderadores.",
+    "Only the owner can change the two-factor requirement.": "Solo el propietario puede cambiar el requisito de autenticación en dos pasos.",
+    "Enable two-factor authentication on your account first.": "Primero activa la autenticación en dos pasos en tu cuenta.",
+
+    // Roles
+    "Role not found.": "Rol no encontrado.",
+    "Role with this name already exists.": "Ya existe un rol con este nombre.",
+    "Role is still assigned to members.": "El rol sigue asignado a algunos miembros.",
+    "Priority must be below admin-level and below your own rank.": "La prioridad debe ser inferior al nivel de administrador y a tu propio rango.",
+    "You cannot grant permissions your own role does not have.": "No puedes otorgar permisos que tu propio rol no tiene.",
+    "You cannot manage a role ranked equal to or above your own.": "No puedes gestionar un rol de rango igual o superior al tuyo.",
+
+    // Validation
+    "Name must be at least 2 characters long.": "El nombre debe tener al menos 2 caracteres.",
+    "Name should be at least 2 characters.": "El nombre debería tener al menos 2 caracteres.",
+    "Please provide a valid email address.": "Indica una dirección de correo electrónico válida.",
+    "Please provide a password.": "Indica una contraseña.",
+    "Please provide your password.": "Indica tu contraseña.",
+    "Please provide your current password.": "Indica tu contraseña actual.",
+    "Please provide the reset token.": "Indica el token de restablecimiento.",
+    "Please provide the verification token.": "Indica el token de verificación.",
+    "Please provide the token returned by signin.": "Indica el token devuelto al iniciar sesión.",
+    "Please provide a code from your authenticator app or a recovery code.": "Indica un código de tu aplicación de autenticación o un código de recuperación.",
+    "Password should be at least {min} characters.": "La contraseña debería tener al menos {min} caracteres.",
+    "Password should be at most {max} bytes long.": "La contraseña debería tener como máximo {max} bytes.",
+    "Password should contain a lowercase letter.": "La contraseña debería contener una letra minúscula.",
+    "Password should contain an uppercase letter.": "La contraseña debería contener una letra mayúscula.",
+    "Password should contain a digit.": "La contraseña debería contener un dígito.",
+    "Password should contain a symbol.": "La contraseña debería contener un símbolo.",
+    "This password is too common, please choose another one.": "Esta contraseña es demasiado común, elige otra.",
+    "Please specify community id.": "Indica el id de la comunidad.",
+    "Community ID must be provided.": "Se debe indicar el ID de la comunidad.",
+    "Community ID must be a string.": "El ID de la comunidad debe ser una cadena.",
+    "User ID must be provided.": "Se debe indicar el ID del usuario.",
+    "User ID must be a string.": "El ID del usuario debe ser una cadena.",
+    "Role ID must be provided.": "Se debe indicar el ID del rol.",
+    "Role ID must be a string.": "El ID del rol debe ser una cadena.",
+    "Member ID must be provided.": "Se debe indicar el ID del miembro.",
+    "Member ID must be a string.": "El ID del miembro debe ser una cadena.",
+    "Permissions must be an array.": "Los permisos deben ser una lista.",
+    "Permissions must be any of: {permissions}.": "Los permisos deben ser alguno de: {permissions}.",
+    "Priority must be an integer between 0 and {max}.": "La prioridad debe ser un número entero entre 0 y {max}.",
+    "Visibility must be one of public, private or hidden.": "La visibilidad debe ser public, private o hidden.",
+    "Slug must be at most {max} characters long.": "El slug debe tener como máximo {max} caracteres.",
+    "Slug may only contain lowercase letters, digits and dashes, and not only digits.": "El slug solo puede contener letras minúsculas, dígitos y guiones, y no solo dígitos.",
+    "Require MFA must be a boolean.": "Require MFA debe ser un valor booleano.",
+    "Expiry must be a positive number of seconds.": "La caducidad debe ser un número positivo de segundos.",
+    "Maximum uses must be a positive integer.": "El número máximo de usos debe ser un entero positivo.",
+    "Bio must be at most {max} characters long.": "La biografía debe tener como máximo {max} caracteres.",
+    "Avatar URL must be a valid http(s) URL.": "La URL del avatar debe ser una URL http(s) válida.",
+    "Timezone must be a valid IANA time zone, e.g. Europe/Berlin.": "La zona horaria debe ser una zona IANA válida, p. ej. Europe/Madrid.",
+    "Locale must be a valid language tag, e.g. en-GB.": "El idioma debe ser una etiqueta de idioma válida, p. ej. es-ES.",
+    "Public fields must be a list of: {fields}.": "Los campos públicos deben ser una lista de: {fields}.",
+    "Search query must be a string.": "La búsqueda debe ser una cadena.",
+    "Status must be one of active, suspended or banned.": "El estado debe ser active, suspended o banned.",
+    "Until must be a date in the future.": "Until debe ser una fecha futura.",
+    "Reason must be at most 500 characters long.": "El motivo debe tener como máximo 500 caracteres.",
+    "Limit must be an integer between 1 and {max}.": "El límite debe ser un número entero entre 1 y {max}.",
+    "Cursor is invalid.": "El cursor no es válido.",
+    "Owner must be a user ID.": "El propietario debe ser un ID de usuario.",
+    "Visibility must be one of public or private.": "La visibilidad debe ser public o private.",
+    "Dates must be given in ISO 8601 format.": "Las fechas deben indicarse en formato ISO 8601.",
+    "Member counts must be non-negative integers.": "El número de miembros debe ser un entero no negativo.",
+    "Sort must be one of: {sorts}.": "El orden debe ser uno de: {sorts}.",
+
+    // General
+    "Route not found": "Ruta no encontrada",
+    "The request body could not be parsed.": "No se pudo interpretar el cuerpo de la solicitud.",
+  },
+};
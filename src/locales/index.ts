@@ -0,0 +1,99 @@
+import { Request } from "express";
+import { DEFAULT_LOCALE } from "../config";
+import { MessageCatalogue } from "../interfaces";
+import { TLocale } from "../types";
+import { de } from "./de";
+import { es } from "./es";
+
+export const SUPPORTED_LOCALES: TLocale[] = ["en", "de", "es"];
+
+/**
+ * Catalogues of the supported locales other than English, which is the language messages are written in.
+ */
+const CATALOGUES: Partial<Record<TLocale, MessageCatalogue>> = { de, es };
+
+/**
+ * Replaces the `{placeholders}` of a message with the given values. Unknown placeholders are left as they are.
+ * @param {string} message - The message, possibly containing placeholders.
+ * @param {Record<string, string | number>} [params] - The values of the placeholders.
+ * @returns {string} - The interpolated message.
+ */
+const interpolate = (message: string, params?: Record<string, string | number>): string =>
+  message.replace(/\{(\w+)\}/g, (placeholder, name) =>
+    params && params[name] !== undefined ? String(params[name]) : placeholder
+  );
+
+/**
+ * Matches a language tag such as `de-AT` against the supported locales.
+ * @param {string | null | undefined} tag - The language tag.
+ * @returns {TLocale | undefined} - The supported locale with the exact tag or its base language, if any.
+ */
+const matchLocale = (tag?: string | null): TLocale | undefined => {
+  if (!tag) {
+    return undefined;
+  }
+  const lower = tag.trim().toLowerCase();
+  const base = lower.split("-")[0];
+  return SUPPORTED_LOCALES.find((locale) => locale === lower) ??
+    SUPPORTED_LOCALES.find((locale) => locale === base);
+};
+
+/**
+ * Translates a message into a locale.
+ * @param {TLocale} locale - The locale to translate into.
+ * @param {string} code - The error code of the message, used when the message itself has no translation.
+ * @param {string} message - The English message, possibly containing placeholders.
+ * @param {Record<string, string | number>} [params] - The values of the placeholders.
+ * @returns {string} - The translated and interpolated message.
+ * @description
+ *   - Uses the translation of the message if the catalogue of the locale has one.
+ *   - Otherwise uses the catalogue's message for the error code, so clients never get a mix of languages.
+ *   - Falls back to the English message for English or codes missing from the catalogue.
+ */
+export const translate = (
+  locale: TLocale,
+  code: string,
+  message: string,
+  params?: Record<string, string | number>
+): string => {
+  const catalogue = CATALOGUES[locale];
+  const translated =
+    catalogue?.messages[message] ??
+    catalogue?.codes[code as keyof MessageCatalogue["codes"]] ??
+    message;
+  return interpolate(translated, params);
+};
+
+/**
+ * Picks the locale to respond in.
+ * @param {Request} req - The request, with the signed in user's saved locale and the Accept-Language header.
+ * @returns {TLocale} - The locale.
+ * @description
+ *   - Prefers the locale saved on the signed in user's profile if it is supported.
+ *   - Otherwise takes the supported language with the highest quality from the Accept-Language header.
+ *   - Falls back to the configured default locale, then English.
+ */
+export const negotiateLocale = (req: Request): TLocale => {
+  const saved = matchLocale(req.currentUser?.locale);
+  if (saved) {
+    return saved;
+  }
+
+  const accepted = (req.headers["accept-language"] ?? "")
+    .split(",")
+    .map((part) => {
+      const [tag, ...options] = part.trim().split(";");
+      const quality = options.find((option) => option.trim().startsWith("q="));
+      return { tag, q: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, q }) => tag && q > 0)
+    .sort((a, b) => b.q - a.q);
+  for (const { tag } of accepted) {
+    const locale = matchLocale(tag);
+    if (locale) {
+      return locale;
+    }
+  }
+
+  return matchLocale(DEFAULT_LOCALE) ?? "en";
+};
@@ -0,0 +1,12 @@
+import { Mail, MailTransport } from "../interfaces";
+
+/**
+ * Prints mails to the console instead of sending them, for local development.
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(mail: Mail & { from: string }): Promise<void> {
+    console.log(
+      `[mail] from: ${mail.from}\nto: ${mail.to}\nsubject: ${mail.subject}\n\n${mail.text}`
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import fs from "fs/promises";
+import path from "path";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { Mail, MailTransport } from "../interfaces";
+
+/**
+ * Writes each mail as a JSON file into a directory, for local development and tests.
+ */
+export class FileTransport implements MailTransport {
+  constructor(private readonly dir: string) {}
+
+  async send(mail: Mail & { from: string }): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true });
+    await fs.writeFile(
+      path.join(this.dir, `${Snowflake.generate()}.json`),
+      JSON.stringify({ ...mail, sent_at: new Date() }, null, 2)
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { MAIL_FILE_DIR, MAIL_FROM, MAIL_TRANSPORT } from "../config";
+import { Mail, MailTransport } from "../interfaces";
+import { ConsoleTransport } from "./console-transport";
+import { FileTransport } from "./file-transport";
+
+export * from "./console-transport";
+export * from "./file-transport";
+
+let transport: MailTransport =
+  MAIL_TRANSPORT === "file"
+    ? new FileTransport(MAIL_FILE_DIR)
+    : new ConsoleTransport();
+
+/**
+ * Replaces the transport mails are sent through, e.g. with an SMTP or API based one.
+ * @param {MailTransport} next - The transport to use from now on.
+ */
+export const setMailTransport = (next: MailTransport): void => {
+  transport = next;
+};
+
+/**
+ * Sends a mail through the configured transport.
+ * @param {Mail} mail - The recipient, subject and text of the mail.
+ * @returns {Promise<void>} - Resolves once the transport accepted the mail.
+ */
+export const sendMail = (mail: Mail): Promise<void> => {
+  return transport.send({ ...mail, from: MAIL_FROM });
+};
@@ -1,8 +1,14 @@
 import { Request, Response, NextFunction } from "express";
-import { decryptSession } from "../utils";
+import { decryptSession, readToken } from "../utils";
+import { RevokedToken, User, UserSession } from "../models";
+import { NonParametricError } from "../errors";
 
 interface UserPayload {
   id: string;
+  sid: string;
+  jti: string;
+  exp: number;
+  locale?: string | null;
 }
 
 declare global {
@@ -14,32 +20,88 @@ declare global {
 }
 
 /**
- * Middleware to set the current user payload from decrypted session JWT.
- * @param {Request} req - The request object potentially containing session JWT.
+ * Middleware to set the current user payload from the decrypted access token.
+ * @param {Request} req - The request object potentially containing an Authorization header or a session JWT.
  * @param {Response} res - The response object (not used in this middleware).
  * @param {NextFunction} next - The next middleware function in the chain.
- * @returns {void} - Sets `req.currentUser` if session JWT is valid; otherwise proceeds to the next middleware.
+ * @returns {Promise<void>} - Sets `req.currentUser` if the token is valid; otherwise passes an error to the next middleware.
  * @description
- *   - Checks if `req.session.jwt` exists to determine if there is a session.
- *   - Decrypts `req.session.jwt` to obtain user payload if session JWT exists.
- *   - Sets `req.currentUser` with the decrypted user payload.
- *   - If an error occurs during decryption or if `req.session.jwt` does not exist, proceeds to the next middleware.
+ *   - Reads the token from the `Authorization: Bearer` header, which takes precedence over `req.session.jwt`.
+ *   - Proceeds to the next middleware without a current user if there is no token at all.
+ *   - Passes a NonParametricError with code INVALID_TOKEN if the header is malformed, the token cannot be decrypted,
+ *     is on the revocation list, its session was revoked, or its user no longer exists or logged out everywhere after it was issued.
+ *   - Passes a NonParametricError with code TOKEN_EXPIRED if the token expired.
+ *   - Passes a NonParametricError with code ACCOUNT_SUSPENDED if the user is banned or suspended.
+ *   - Records that the session was used and sets `req.currentUser` with the decrypted user payload.
  */
-export const currentUser = (
+export const currentUser = async (
   req: Request,
   res: Response,
   next: NextFunction
 ) => {
-  if (!req.session?.jwt) {
-    return next();
-  }
-
   try {
-    const payload = decryptSession(req.session.jwt);
+    const token = readToken(req);
+    if (!token) {
+      return next();
+    }
+
+    const payload = decryptSession(token);
+    const user = await User.findByPk(payload.id);
+    const session = await UserSession.findByPk(payload.sid);
+    if (
+      !user?.acceptsTokenIssuedAt(payload.iat) ||
+      !session ||
+      session.revokedAt ||
+      session.userId !== user.id ||
+      (await RevokedToken.isRevoked(payload.jti))
+    ) {
+      throw new NonParametricError([
+        { message: "Your session token is invalid.", code: "INVALID_TOKEN" },
+      ]);
+    }
+
+    if (user.isSuspended()) {
+      throw new NonParametricError([
+        { ...user.suspensionMessage(), code: "ACCOUNT_SUSPENDED" },
+      ]);
+    }
+
+    await session.touch();
     req.currentUser = {
-      id: payload,
+      id: payload.id,
+      sid: payload.sid,
+      jti: payload.jti,
+      exp: payload.exp,
+      locale: user.locale,
     };
-  } catch (err) {}
-
-  next();
+    next();
+  } catch (error) {
+    next(error);
+  }
 };
+
+
+/**
+ * Middleware to set the current user on routes that also serve anonymous visitors.
+ * @param {Request} req - The request object potentially containing an Authorization header or a session JWT.
+ * @param {Response} res - The response object (not used in this middleware).
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Sets `req.currentUser` like currentUser does.
+ * @description
+ *   - Proceeds without a current user if the token is invalid or expired, instead of rejecting the request.
+ *   - Passes any other error, e.g. ACCOUNT_SUSPENDED, to the next middleware.
+ */
+export const optionalUser = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) =>
+  currentUser(req, res, (error?: unknown) => {
+    if (
+      error instanceof NonParametricError &&
+      ["INVALID_TOKEN", "TOKEN_EXPIRED"].includes(error.serializeErrors()[0]?.code)
+    ) {
+      return next();
+    }
+    next(error);
+  });
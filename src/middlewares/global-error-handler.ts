@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from "express";
-import { CustomError } from "../errors";
+import { CustomError, ERROR_CATALOGUE } from "../errors";
+import { negotiateLocale, translate } from "../locales";
 
 
 /**
@@ -10,10 +11,12 @@ import { CustomError } from "../errors";
  * @param {NextFunction} next - The next middleware function in the chain.
  * @returns {Response} - JSON response indicating the error status and details.
  * @description
- *   - Checks if the error is an instance of CustomError.
- *   - Logs the error to the console for debugging purposes.
- *   - If the error is a CustomError, responds with a 400 status code and serialized error details.
- *   - If the error is not a CustomError, responds with a 400 status code and the error message.
+ *   - Negotiates the locale of the response and sets the Content-Language header to it.
+ *   - If the error is a CustomError, responds with the status its code maps to in the error catalogue and serialized error details.
+ *   - If the request body could not be parsed, responds with a 422 status code and an INVALID_INPUT error.
+ *   - If another error carries a 4xx status, e.g. 413 for a body that is too large, responds with that status and a BAD_REQUEST error.
+ *   - Otherwise logs the error with the request's correlation id and responds with a 500 status code and a generic
+ *     INTERNAL_ERROR error carrying that id, without leaking the error message.
  */
 export const globalErrorHandler = (
   err: Error,
@@ -21,11 +24,50 @@ export const globalErrorHandler = (
   res: Response,
   next: NextFunction
 ) => {
+  const locale = negotiateLocale(req);
+  res.setHeader("Content-Language", locale);
+
   if (err instanceof CustomError) {
-    console.log(err);
     return res
-      .status(400)
-      .json({ status: false, errors: err.serializeErrors() });
+      .status(err.statusCode)
+      .json({ status: false, errors: err.serializeErrors(locale) });
+  }
+
+  const { status, statusCode, type } = err as Error & { status?: number; statusCode?: number; type?: string };
+  if (type === "entity.parse.failed") {
+    return res.status(ERROR_CATALOGUE.INVALID_INPUT.status).json({
+      status: false,
+      errors: [
+        {
+          message: translate(locale, "INVALID_INPUT", "The request body could not be parsed."),
+          code: "INVALID_INPUT",
+        },
+      ],
+    });
   }
-  return res.status(400).json({ status: false, message: err.message });
-};
+
+  const clientStatus = status ?? statusCode;
+  if (clientStatus && clientStatus >= 400 && clientStatus < 500) {
+    return res.status(clientStatus).json({
+      status: false,
+      errors: [
+        {
+          message: translate(locale, "BAD_REQUEST", ERROR_CATALOGUE.BAD_REQUEST.message),
+          code: "BAD_REQUEST",
+        },
+      ],
+    });
+  }
+
+  console.error(`[${req.id}] Unhandled error on ${req.method} ${req.originalUrl}:`, err);
+  return res.status(ERROR_CATALOGUE.INTERNAL_ERROR.status).json({
+    status: false,
+    errors: [
+      {
+        message: translate(locale, "INTERNAL_ERROR", ERROR_CATALOGUE.INTERNAL_ERROR.message),
+        code: "INTERNAL_ERROR",
+      },
+    ],
+    correlation_id: req.id,
+  });
+};
\ No newline at end of file
@@ -1,7 +1,11 @@
 export * from "./global-error-handler";
+export * from "./request-id";
 export * from "./route-validations";
 export * from "./validate-request";
 export * from "./current-user";
 export * from "./is-loggedin";
-export * from "./is-community-admin";
-export * from "./is-community-moderator";
\ No newline at end of file
+export * from "./require-permission";
+export * from "./is-community-owner";
+
+export * from "./require-verified-email";
+export * from "./is-platform-admin";
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Request, Response, NextFunction } from "express";
+import { NonParametricError, ParametricError } from "../errors";
+import { Community } from "../models";
+
+
+/**
+ * Middleware to check if the current user is the owner of the community in the route parameters.
+ * @param {Request} req - The request object containing currentUser and the communityId route parameter.
+ * @param {Response} res - The response object (not directly used in this middleware).
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {void} - Proceeds to the next middleware if user is the owner; otherwise, passes error to the next middleware.
+ * @description
+ *   - Retrieves the user ID from req.currentUser, it is embedded from previous middleware.
+ *   - Throws a ParametricError if the community does not exist.
+ *   - Throws a NonParametricError if the current user does not own the community.
+ */
+export const isCommunityOwner = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id: userId } = req.currentUser!;
+
+    const community = await Community.findByPk(req.params.communityId);
+    if (!community) {
+      throw new ParametricError([
+        {
+          param: "community",
+          message: "Community not found.",
+          code: "RESOURCE_NOT_FOUND",
+        },
+      ]);
+    }
+
+    if (community.ownerId !== userId) {
+      throw new NonParametricError([
+        {
+          message: "You are not authorized to perform this action.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -9,7 +9,7 @@ import { NonParametricError } from "../errors";
  * @param {NextFunction} next - The next middleware function in the chain.
  * @returns {void} - Proceeds to the next middleware if user is logged in; otherwise, passes error to the next middleware.
  * @description
- *   - Throws a NonParametricError if req.currentUser is falsy, indicating the user is not logged in.
+ *   - Throws a NonParametricError with code NOT_SIGNEDIN if req.currentUser is falsy, indicating the user is not logged in.
  */
 export const isLoggedIn = (
     req: Request,
@@ -18,7 +18,7 @@ export const isLoggedIn = (
   ) => {
     try {
         if(!req.currentUser){
-            throw new NonParametricError([{message: "You are not authorized to perform this action.", code: "NOT_ALLOWED_ACCESS"}]);
+            throw new NonParametricError([{message: "You need to sign in to proceed.", code: "NOT_SIGNEDIN"}]);
         }
         next();
     } catch (error) {
@@ -0,0 +1,35 @@
+import { Request, Response, NextFunction } from "express";
+import { NonParametricError } from "../errors";
+import { User } from "../models";
+
+
+/**
+ * Middleware to check if the current user is a platform admin.
+ * @param {Request} req - The request object containing currentUser information.
+ * @param {Response} res - The response object (not directly used in this middleware).
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Proceeds to the next middleware if user is a platform admin; otherwise, passes error to the next middleware.
+ * @description
+ *   - Retrieves the user ID from req.currentUser, it is embedded from previous middleware.
+ *   - Throws a NonParametricError if the user is not a platform admin.
+ */
+export const isPlatformAdmin = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const user = await User.findByPk(req.currentUser!.id);
+    if (!user?.isPlatformAdmin) {
+      throw new NonParametricError([
+        {
+          message: "You are not authorized to perform this action.",
+          code: "NOT_ALLOWED_ACCESS",
+        },
+      ]);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
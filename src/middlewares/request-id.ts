@@ -0,0 +1,30 @@
+import crypto from "crypto";
+import { Request, Response, NextFunction } from "express";
+
+declare global {
+  namespace Express {
+    interface Request {
+      id?: string;
+    }
+  }
+}
+
+/**
+ * Middleware to give every request a correlation id, to find its log lines from an error response.
+ * @param {Request} req - The request object, possibly carrying an `X-Request-Id` header.
+ * @param {Response} res - The response object, which receives the id in its `X-Request-Id` header.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {void} - Sets `req.id` and proceeds to the next middleware.
+ * @description
+ *   - Reuses the `X-Request-Id` header set by a proxy if it looks sane, otherwise generates a UUID.
+ */
+export const requestId = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const incoming = req.get("x-request-id");
+  req.id = incoming && /^[\w.-]{1,128}$/.test(incoming) ? incoming : crypto.randomUUID();
+  res.set("X-Request-Id", req.id);
+  next();
+};
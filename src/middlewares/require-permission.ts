@@ -0,0 +1,103 @@
+import { Request, Response, NextFunction } from "express";
+import { NonParametricError, ParametricError } from "../errors";
+import { Community, Member, User } from "../models";
+import { TPermission } from "../types";
+import { MODERATOR_PRIORITY } from "../config";
+
+declare global {
+  namespace Express {
+    interface Request {
+      membership?: Member;
+    }
+  }
+}
+
+/**
+ * Resolves the id of the community a request targets.
+ * @param {Request} req - The request object.
+ * @returns {Promise<string | undefined>} - The community id from the `communityId` route parameter,
+ *   the community of the member in the `memberId` route parameter, or the `community` body field.
+ */
+const resolveCommunityId = async (req: Request): Promise<string | undefined> => {
+  if (req.params.communityId) {
+    return req.params.communityId;
+  }
+  if (req.params.memberId) {
+    const member = await Member.findByPk(req.params.memberId);
+    return member?.communityId;
+  }
+  return req.body?.community;
+};
+
+/**
+ * Creates a middleware that checks whether the current user holds the given permissions in the target community.
+ * @param {...TPermission} permissions - The permissions the current user's role must grant. When none are given, only membership is required.
+ * @returns {Function} - An Express middleware enforcing the permissions.
+ * @description
+ *   - Retrieves the user ID from req.currentUser, it is embedded from previous middleware.
+ *   - Resolves the community ID from the route parameters, the targeted member or the request body.
+ *   - Throws a ParametricError if the community does not exist.
+ *   - Fetches the membership of the user in the community along with its role.
+ *   - Throws a NonParametricError if the user is not a member, or if the role lacks any of the permissions.
+ *     The community owner is always allowed.
+ *   - Throws a NonParametricError if the community requires two-factor authentication, the user is its owner
+ *     or holds a moderator-level role, and has not enabled it.
+ *   - Stores the membership on req.membership for the next middlewares.
+ */
+export const requirePermission =
+  (...permissions: TPermission[]) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id: userId } = req.currentUser!;
+      const communityId = await resolveCommunityId(req);
+
+      const community = communityId
+        ? await Community.findByPk(communityId)
+        : null;
+      if (!community) {
+        throw new ParametricError([
+          {
+            param: "community",
+            message: "Community not found.",
+            code: "RESOURCE_NOT_FOUND",
+          },
+        ]);
+      }
+
+      const membership = await Member.findOne({
+        where: {
+          userId,
+          communityId: community.id,
+        },
+        include: ["role"],
+      });
+
+      const isOwner = community.ownerId === userId;
+      if (!isOwner && !membership?.role?.hasPermissions(permissions)) {
+        throw new NonParametricError([
+          {
+            message: "You are not authorized to perform this action.",
+            code: "NOT_ALLOWED_ACCESS",
+          },
+        ]);
+      }
+
+      const isModerator = isOwner || (membership?.role?.priority ?? 0) >= MODERATOR_PRIORITY;
+      if (community.requireMfa && isModerator) {
+        const user = await User.findByPk(userId);
+        if (!user?.mfaEnabledAt) {
+          throw new NonParametricError([
+            {
+              message: "This community requires two-factor authentication for its admins and moderators.",
+              code: "MFA_REQUIRED",
+            },
+          ]);
+        }
+      }
+
+      req.membership = membership ?? undefined;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
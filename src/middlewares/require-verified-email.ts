@@ -0,0 +1,40 @@
+import { Request, Response, NextFunction } from "express";
+import { NonParametricError } from "../errors";
+import { User } from "../models";
+import { REQUIRE_VERIFIED_EMAIL } from "../config";
+
+
+/**
+ * Middleware to check if the current user verified their email address, when the policy asks for it.
+ * @param {Request} req - The request object containing currentUser information.
+ * @param {Response} res - The response object (not directly used in this middleware).
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Proceeds to the next middleware if the user may proceed; otherwise, passes error to the next middleware.
+ * @description
+ *   - Lets every user through unless NODE_REQUIRE_VERIFIED_EMAIL is "true".
+ *   - Throws a NonParametricError if the current user has not verified their email address.
+ */
+export const requireVerifiedEmail = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    if (!REQUIRE_VERIFIED_EMAIL) {
+      return next();
+    }
+
+    const user = await User.findByPk(req.currentUser!.id);
+    if (!user?.emailVerifiedAt) {
+      throw new NonParametricError([
+        {
+          message: "You need to verify your email address to proceed.",
+          code: "EMAIL_NOT_VERIFIED",
+        },
+      ]);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,93 @@
+import { ValidationChain, body, query } from "express-validator";
+import { Request, Response, NextFunction } from "express";
+import { paginationRules } from "./pagination";
+
+/**
+ * Validates query parameters for listing users.
+ * @param {Request} req - The request object containing the search and filter parameters.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'q', if provided, is a string.
+ *   - Ensures 'status', if provided, is one of "active", "suspended" or "banned".
+ *   - Ensures 'limit' and 'cursor', if provided, are a valid page size and cursor.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const listUsersVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    query("q")
+      .optional()
+      .isString()
+      .withMessage("Search query must be a string."),
+
+    query("status")
+      .optional()
+      .isIn(["active", "suspended", "banned"])
+      .withMessage("Status must be one of active, suspended or banned."),
+
+    ...paginationRules(),
+  ];
+  await Promise.all(validationRules.map((rule) => rule.run(req)));
+  next();
+};
+
+const reasonRule = (): ValidationChain =>
+  body("reason")
+    .optional()
+    .isString()
+    .isLength({ max: 500 })
+    .withMessage("Reason must be at most 500 characters long.");
+
+/**
+ * Validates request body parameters for suspending a user.
+ * @param {Request} req - The request object containing the end of the suspension and its reason.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'until' is a date in the future.
+ *   - Ensures 'reason', if provided, is a string of at most 500 characters.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const suspendUserVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    body("until")
+      .exists()
+      .isISO8601({ strict: true })
+      .custom((value: string) => new Date(value).getTime() > Date.now())
+      .withMessage("Until must be a date in the future."),
+
+    reasonRule(),
+  ];
+  await Promise.all(validationRules.map((rule) => rule.run(req)));
+  next();
+};
+
+/**
+ * Validates request body parameters for banning a user.
+ * @param {Request} req - The request object containing the reason of the ban.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'reason', if provided, is a string of at most 500 characters.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const banUserVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [reasonRule()];
+  await Promise.all(validationRules.map((rule) => rule.run(req)));
+  next();
+};
@@ -1,5 +1,24 @@
 import { ValidationChain, body, validationResult } from "express-validator";
 import { Request, Response, NextFunction } from "express";
+import { getPasswordRules } from "../../utils";
+
+/**
+ * Builds one validation chain per rule of the password policy, so each unmet rule is reported with its own message.
+ * @param {string} field - The body field holding the new password.
+ * @returns {ValidationChain[]} - The chains to run along with the other rules of a validator.
+ */
+const passwordPolicyRules = (field: string): ValidationChain[] => [
+  body(field)
+    .exists()
+    .isString()
+    .withMessage("Please provide a password."),
+  ...getPasswordRules().map((rule) =>
+    body(field)
+      .if(body(field).isString())
+      .custom((value: string) => rule.test(value))
+      .withMessage({ message: rule.message, params: rule.params })
+  ),
+];
 
 /**
  * Validates request body parameters for signing up a new user.
@@ -11,7 +30,7 @@ import { Request, Response, NextFunction } from "express";
  *   - Validates 'name', 'email', and 'password' fields in the request body.
  *   - Ensures 'name' is a string of at least 2 characters.
  *   - Ensures 'email' is a valid email address.
- *   - Ensures 'password' is a string of at least 2 characters.
+ *   - Ensures 'password' meets every rule of the password policy.
  *   - Passes control to the next middleware if validation succeeds.
  */
 export const signupUserVal = (
@@ -31,15 +50,7 @@ export const signupUserVal = (
       .isEmail()
       .withMessage("Please provide a valid email address."),
 
-    body("password")
-      .exists()
-      .isString()
-      .isLength({ min: 2 })
-      // .isLength({ min: 8 }) //Commented out the real strong password validation to comply with provided rule book on documenter.postman.com
-      // .matches(/[A-Z]/)
-      // .matches(/\d/)
-      // .matches(/[@#$&]/)
-      .withMessage("Password should be at least 2 characters."),
+    ...passwordPolicyRules("password"),
   ];
 
   return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
@@ -56,7 +67,7 @@ export const signupUserVal = (
  * @description
  *   - Validates 'email' and 'password' fields in the request body for signing in.
  *   - Ensures 'email' is a valid email address.
- *   - Ensures 'password' is a string of at least 2 characters.
+ *   - Ensures 'password' is a non-empty string; the password policy is not applied, so older passwords still work.
  *   - Passes control to the next middleware if validation succeeds.
  */
 export const signinUserVal = (
@@ -73,12 +84,222 @@ export const signinUserVal = (
     body("password")
       .exists()
       .isString()
-      .isLength({ min: 2 })
-      // .isLength({ min: 8 }) //Commented out the real strong password validation to comply with provided rule book on documenter.postman.com
-      // .matches(/[A-Z]/)
-      // .matches(/\d/)
-      // .matches(/[@#$&]/)
-      .withMessage("Password should be at least 2 characters."),
+      .notEmpty()
+      .withMessage("Please provide your password."),
+  ];
+
+  return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request body parameters for changing the password of the signed in user.
+ * @param {Request} req - The request object containing the current and the new password.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'current_password' is a non-empty string.
+ *   - Ensures 'new_password' meets every rule of the password policy.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const changePasswordVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const validationRules: ValidationChain[] = [
+    body("current_password")
+      .exists()
+      .isString()
+      .notEmpty()
+      .withMessage("Please provide your current password."),
+
+    ...passwordPolicyRules("new_password"),
+  ];
+
+  return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request body parameters for requesting a password reset.
+ * @param {Request} req - The request object containing the email address.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'email' is a valid email address.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const forgotPasswordVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const validationRules: ValidationChain[] = [
+    body("email")
+      .exists()
+      .isEmail()
+      .withMessage("Please provide a valid email address."),
+  ];
+
+  return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request body parameters for resetting a password with a reset token.
+ * @param {Request} req - The request object containing the reset token and the new password.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'token' is a non-empty string.
+ *   - Ensures 'password' meets every rule of the password policy.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const resetPasswordVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const validationRules: ValidationChain[] = [
+    body("token")
+      .exists()
+      .isString()
+      .notEmpty()
+      .withMessage("Please provide the reset token."),
+
+    ...passwordPolicyRules("password"),
+  ];
+
+  return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request body parameters for verifying an email address.
+ * @param {Request} req - The request object containing the verification token.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'token' is a non-empty string.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const verifyEmailVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const validationRules: ValidationChain[] = [
+    body("token")
+      .exists()
+      .isString()
+      .notEmpty()
+      .withMessage("Please provide the verification token."),
+  ];
+
+  return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request body parameters carrying a two-factor code.
+ * @param {Request} req - The request object containing the code.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'code' is a non-empty string.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const mfaCodeVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const validationRules: ValidationChain[] = [
+    body("code")
+      .exists()
+      .isString()
+      .notEmpty()
+      .withMessage("Please provide a code from your authenticator app or a recovery code."),
+  ];
+
+  return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request body parameters for completing a signin with a two-factor code.
+ * @param {Request} req - The request object containing the challenge token and the code.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'mfa_token' is a non-empty string.
+ *   - Ensures 'code' is a non-empty string.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const verifyMfaVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const validationRules: ValidationChain[] = [
+    body("mfa_token")
+      .exists()
+      .isString()
+      .notEmpty()
+      .withMessage("Please provide the token returned by signin."),
+
+    body("code")
+      .exists()
+      .isString()
+      .notEmpty()
+      .withMessage("Please provide a code from your authenticator app or a recovery code."),
+  ];
+
+  return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request body parameters for deleting the account of the signed in user.
+ * @param {Request} req - The request object containing the password of the user.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'password' is a non-empty string, confirming the deletion.
+ *   - Ensures 'code', if provided, is a string; it is required when two-factor authentication is enabled.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const deleteMeVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  const validationRules: ValidationChain[] = [
+    body("password")
+      .exists()
+      .isString()
+      .notEmpty()
+      .withMessage("Please provide your password."),
+
+    body("code")
+      .optional()
+      .isString()
+      .withMessage("Please provide a code from your authenticator app or a recovery code."),
   ];
 
   return Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
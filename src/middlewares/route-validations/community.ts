@@ -2,9 +2,21 @@ import {
   ValidationChain,
   body,
   param,
+  query,
 } from "express-validator";
 import { Request, Response, NextFunction } from "express";
+import { COMMUNITY_SORTS } from "../../config";
+import { paginationRules } from "./pagination";
 
+/**
+ * Builds the validation rule for the optional 'visibility' field of a community.
+ * @returns {ValidationChain} - The validation chain for 'visibility'.
+ */
+const visibilityRule = (): ValidationChain =>
+  body("visibility")
+    .optional()
+    .isIn(["public", "private", "hidden"])
+    .withMessage("Visibility must be one of public, private or hidden.");
 
 /**
  * Validates request body parameters for creating a new community.
@@ -15,6 +27,7 @@ import { Request, Response, NextFunction } from "express";
  * @description
  *   - Validates 'name' field in the request body.
  *   - Ensures 'name' is a string of at least 2 characters.
+ *   - Ensures 'visibility', if provided, is one of "public", "private" or "hidden".
  *   - Passes control to the next middleware if validation succeeds.
  */
 export const createCommunityVal = async (
@@ -28,12 +41,72 @@ export const createCommunityVal = async (
       .isString()
       .isLength({ min: 2 })
       .withMessage("Name must be at least 2 characters long."),
+
+    visibilityRule(),
   ];
   await Promise.all(validationRules.map((rule) => rule.run(req)));
   next();
 };
 
+/**
+ * Validates query parameters for listing communities.
+ * @param {Request} req - The request object containing the search, filter and sort parameters.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'q' and 'owner', if provided, are strings.
+ *   - Ensures 'visibility', if provided, is one of the listed visibilities "public" or "private".
+ *   - Ensures 'created_after' and 'created_before', if provided, are ISO 8601 dates.
+ *   - Ensures 'min_members' and 'max_members', if provided, are non-negative integers.
+ *   - Ensures 'sort', if provided, is one of the supported orders.
+ *   - Ensures 'limit' and 'cursor', if provided, are a valid page size and cursor.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const listCommunitiesVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    query("q")
+      .optional()
+      .isString()
+      .withMessage("Search query must be a string."),
+
+    query("owner")
+      .optional()
+      .isString()
+      .withMessage("Owner must be a user ID."),
+
+    query("visibility")
+      .optional()
+      .isIn(["public", "private"])
+      .withMessage("Visibility must be one of public or private."),
+
+    query(["created_after", "created_before"])
+      .optional()
+      .isISO8601()
+      .withMessage("Dates must be given in ISO 8601 format."),
+
+    query(["min_members", "max_members"])
+      .optional()
+      .isInt({ min: 0 })
+      .withMessage("Member counts must be non-negative integers."),
 
+    query("sort")
+      .optional()
+      .isIn(COMMUNITY_SORTS)
+      .withMessage({
+        message: "Sort must be one of: {sorts}.",
+        params: { sorts: COMMUNITY_SORTS.join(", ") },
+      }),
+
+    ...paginationRules(),
+  ];
+  await Promise.all(validationRules.map((rule) => rule.run(req)));
+  next();
+};
 
 /**
  * Validates request parameters for retrieving members of a community.
@@ -44,6 +117,8 @@ export const createCommunityVal = async (
  * @description
  *   - Validates 'id' parameter in the request for retrieving members of a community.
  *   - Ensures 'id' is a non-falsy string value.
+ *   - Ensures 'role' and 'q', if provided, are strings.
+ *   - Ensures 'limit' and 'cursor', if provided, are a valid page size and cursor.
  *   - Passes control to the next middleware if validation succeeds.
  */
 export const getAllMembersVal = (
@@ -56,8 +131,125 @@ export const getAllMembersVal = (
       .exists({ values: "falsy" })
       .isString()
       .withMessage("Please specify community id."),
+
+    query("role")
+      .optional()
+      .isString()
+      .withMessage("Role ID must be a string."),
+
+    query("q")
+      .optional()
+      .isString()
+      .withMessage("Search query must be a string."),
+
+    ...paginationRules(),
   ];
   Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
     next();
   });
 };
+
+/**
+ * Validates request body parameters for updating a community.
+ * @param {Request} req - The request object containing community information.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'name', if provided, is a string of at least 2 characters.
+ *   - Ensures 'slug', if provided, is at most 255 characters long and only contains lowercase letters, digits and
+ *     dashes, and not only digits, so it cannot be mistaken for a community ID.
+ *   - Ensures 'visibility', if provided, is one of "public", "private" or "hidden".
+ *   - Ensures 'require_mfa', if provided, is a boolean.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const updateCommunityVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    body("name")
+      .optional()
+      .isString()
+      .isLength({ min: 2 })
+      .withMessage("Name must be at least 2 characters long."),
+
+    body("slug")
+      .optional()
+      .isString()
+      .isLength({ max: 255 })
+      .withMessage({
+        message: "Slug must be at most {max} characters long.",
+        params: { max: 255 },
+      })
+      .matches(/^(?![0-9]+$)[a-z0-9]+(-[a-z0-9]+)*$/)
+      .withMessage("Slug may only contain lowercase letters, digits and dashes, and not only digits."),
+
+    visibilityRule(),
+
+    body("require_mfa")
+      .optional()
+      .isBoolean({ strict: true })
+      .withMessage("Require MFA must be a boolean."),
+  ];
+  await Promise.all(validationRules.map((rule) => rule.run(req)));
+  next();
+};
+
+/**
+ * Validates request body parameters for transferring a community to another member.
+ * @param {Request} req - The request object containing the recipient's user ID.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'user' ID is provided and a string.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const createTransferVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    body("user")
+      .exists({ values: "falsy" })
+      .withMessage("User ID must be provided.")
+      .isString()
+      .withMessage("User ID must be a string."),
+  ];
+  await Promise.all(validationRules.map((rule) => rule.run(req)));
+  next();
+};
+
+/**
+ * Validates request body parameters for creating an invite to a community.
+ * @param {Request} req - The request object containing invite information.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'expires_in', if provided, is a positive number of seconds.
+ *   - Ensures 'max_uses', if provided, is a positive integer.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const createInviteVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    body("expires_in")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Expiry must be a positive number of seconds."),
+
+    body("max_uses")
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage("Maximum uses must be a positive integer."),
+  ];
+  await Promise.all(validationRules.map((rule) => rule.run(req)));
+  next();
+};
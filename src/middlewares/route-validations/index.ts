@@ -1,4 +1,7 @@
 export * from "./role";
 export * from "./auth";
 export * from "./community";
-export * from "./member";
\ No newline at end of file
+export * from "./member";
+export * from "./profile";
+export * from "./admin";
+export * from "./pagination";
\ No newline at end of file
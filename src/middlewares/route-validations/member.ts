@@ -1,8 +1,6 @@
 import { ValidationChain, body, param } from "express-validator";
 import { Request, Response, NextFunction } from "express";
 
-
-
 /**
  * Validates request body parameters for adding a member to a community.
  * @param {Request} req - The request object containing member information.
@@ -46,8 +44,6 @@ export const addMemberVal = (
   });
 };
 
-
-
 /**
  * Validates request parameters for deleting a member from a community.
  * @param {Request} req - The request object containing member ID.
@@ -55,8 +51,8 @@ export const addMemberVal = (
  * @param {NextFunction} next - The next middleware function in the chain.
  * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
  * @description
- *   - Validates 'id' parameter in the request for deleting a member from a community.
- *   - Ensures 'id' is provided and a string.
+ *   - Validates 'memberId' parameter in the request for deleting a member from a community.
+ *   - Ensures 'memberId' is provided and a string.
  *   - Passes control to the next middleware if validation succeeds.
  */
 export const deleteMemberVal = (
@@ -66,11 +62,39 @@ export const deleteMemberVal = (
 ) => {
   
   const validationRules: ValidationChain[] = [
-    param("id")
+    param("memberId")
       .exists({ values: "falsy" })
-      .withMessage("User ID must be provided.")
+      .withMessage("Member ID must be provided.")
       .isString()
-      .withMessage("User ID must be a string."),
+      .withMessage("Member ID must be a string."),
+  ];
+
+  Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request parameters for changing the role of a member.
+ * @param {Request} req - The request object containing the member ID and role ID.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'role' ID is provided and a string.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const updateMemberRoleVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    body("role")
+      .exists({ values: "falsy" })
+      .withMessage("Role ID must be provided.")
+      .isString()
+      .withMessage("Role ID must be a string."),
   ];
 
   Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
@@ -0,0 +1,44 @@
+import { ValidationChain, query } from "express-validator";
+import { Request, Response, NextFunction } from "express";
+import { PAGE_SIZE_MAX } from "../../config";
+import { decodeCursor } from "../../utils";
+
+/**
+ * Builds the validation rules of the pagination query parameters shared by every list endpoint.
+ * @returns {ValidationChain[]} - The rules for 'limit' and 'cursor'.
+ */
+export const paginationRules = (): ValidationChain[] => [
+  query("limit")
+    .optional()
+    .isInt({ min: 1, max: PAGE_SIZE_MAX })
+    .withMessage({
+      message: "Limit must be an integer between 1 and {max}.",
+      params: { max: PAGE_SIZE_MAX },
+    }),
+
+  query("cursor")
+    .optional()
+    .isString()
+    .custom((cursor: string) => Boolean(decodeCursor(cursor)))
+    .withMessage("Cursor is invalid."),
+];
+
+/**
+ * Validates the pagination query parameters of a list request.
+ * @param {Request} req - The request object containing the optional page size and cursor.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'limit', if provided, is an integer between 1 and the configured maximum page size.
+ *   - Ensures 'cursor', if provided, is a cursor handed out by a previous page.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const paginationVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  await Promise.all(paginationRules().map((rule) => rule.run(req)));
+  next();
+};
@@ -0,0 +1,103 @@
+import { ValidationChain, body } from "express-validator";
+import { Request, Response, NextFunction } from "express";
+import { BIO_MAX_LENGTH, PROFILE_FIELDS } from "../../config";
+
+/**
+ * Checks whether a string is an IANA time zone known to the runtime.
+ * @param {string} value - The time zone, e.g. "Europe/Berlin".
+ * @returns {boolean} - True if the time zone is known.
+ */
+const isTimeZone = (value: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Checks whether a string is a well-formed BCP 47 language tag.
+ * @param {string} value - The language tag, e.g. "en-GB".
+ * @returns {boolean} - True if the tag is well-formed.
+ */
+const isLocale = (value: string): boolean => {
+  try {
+    return Intl.getCanonicalLocales(value).length === 1;
+  } catch (error) {
+    return false;
+  }
+};
+
+/**
+ * Validates request body parameters for updating the profile of the signed in user.
+ * @param {Request} req - The request object containing the profile fields to update.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'name', if provided, is a string of at least 2 characters.
+ *   - Ensures 'email', if provided, is a valid email address.
+ *   - Ensures 'bio', 'avatar_url', 'timezone' and 'locale', if provided, are null or respectively a short text,
+ *     an http(s) URL, an IANA time zone and a BCP 47 language tag.
+ *   - Ensures 'public_fields', if provided, is an array of profile fields.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const updateMeVal = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    body("name")
+      .optional()
+      .isString()
+      .isLength({ min: 2 })
+      .withMessage("Name must be at least 2 characters long."),
+
+    body("email")
+      .optional()
+      .isEmail()
+      .withMessage("Please provide a valid email address."),
+
+    body("bio")
+      .optional({ values: "null" })
+      .isString()
+      .isLength({ max: BIO_MAX_LENGTH })
+      .withMessage({
+        message: "Bio must be at most {max} characters long.",
+        params: { max: BIO_MAX_LENGTH },
+      }),
+
+    body("avatar_url")
+      .optional({ values: "null" })
+      .isURL({ protocols: ["http", "https"], require_protocol: true })
+      .isLength({ max: 2048 })
+      .withMessage("Avatar URL must be a valid http(s) URL."),
+
+    body("timezone")
+      .optional({ values: "null" })
+      .isString()
+      .custom(isTimeZone)
+      .withMessage("Timezone must be a valid IANA time zone, e.g. Europe/Berlin."),
+
+    body("locale")
+      .optional({ values: "null" })
+      .isString()
+      .custom(isLocale)
+      .withMessage("Locale must be a valid language tag, e.g. en-GB."),
+
+    body("public_fields")
+      .optional()
+      .isArray()
+      .custom((fields: unknown[]) =>
+        fields.every((field) => PROFILE_FIELDS.includes(field as never))
+      )
+      .withMessage({
+        message: "Public fields must be a list of: {fields}.",
+        params: { fields: PROFILE_FIELDS.join(", ") },
+      }),
+  ];
+  await Promise.all(validationRules.map((rule) => rule.run(req)));
+  next();
+};
@@ -1,6 +1,7 @@
 import { ValidationChain, body } from "express-validator";
 import { Request, Response, NextFunction } from "express";
-
+import { ADMIN_PRIORITY, PERMISSIONS } from "../../config";
+import { TPermission } from "../../types";
 
 /**
  * Validates request body parameters for creating a new role.
@@ -11,6 +12,8 @@ import { Request, Response, NextFunction } from "express";
  * @description
  *   - Validates 'name' field in the request body for creating a role.
  *   - Ensures 'name' is a string of at least 2 characters.
+ *   - Ensures 'permissions', if provided, is an array of known permissions.
+ *   - Ensures 'priority', if provided, is an integer between 0 and the admin-level priority.
  *   - Passes control to the next middleware if validation succeeds.
  */
 export const createRoleVal = (
@@ -24,6 +27,77 @@ export const createRoleVal = (
       .isString()
       .isLength({ min: 2 })
       .withMessage("Name should be at least 2 characters."),
+
+    body("permissions")
+      .optional()
+      .isArray()
+      .withMessage("Permissions must be an array.")
+      .custom((permissions: TPermission[]) =>
+        permissions.every((permission) => PERMISSIONS.includes(permission))
+      )
+      .withMessage({
+        message: "Permissions must be any of: {permissions}.",
+        params: { permissions: PERMISSIONS.join(", ") },
+      }),
+
+    body("priority")
+      .optional()
+      .isInt({ min: 0, max: ADMIN_PRIORITY })
+      .withMessage({
+        message: "Priority must be an integer between 0 and {max}.",
+        params: { max: ADMIN_PRIORITY },
+      })
+      .toInt(),
+  ];
+  Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
+    next();
+  });
+};
+
+/**
+ * Validates request body parameters for updating a community's custom role.
+ * @param {Request} req - The request object containing role information.
+ * @param {Response} res - The response object used to send validation errors.
+ * @param {NextFunction} next - The next middleware function in the chain.
+ * @returns {Promise<void>} - Resolves if validation succeeds, otherwise passes validation errors to the next middleware.
+ * @description
+ *   - Ensures 'name', if provided, is a string of at least 2 characters.
+ *   - Ensures 'permissions', if provided, is an array of known permissions.
+ *   - Ensures 'priority', if provided, is an integer between 0 and the admin-level priority.
+ *   - Passes control to the next middleware if validation succeeds.
+ */
+export const updateRoleVal = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const validationRules: ValidationChain[] = [
+    body("name")
+      .optional()
+      .isString()
+      .isLength({ min: 2 })
+      .withMessage("Name should be at least 2 characters."),
+
+    body("permissions")
+      .optional()
+      .isArray()
+      .withMessage("Permissions must be an array.")
+      .custom((permissions: TPermission[]) =>
+        permissions.every((permission) => PERMISSIONS.includes(permission))
+      )
+      .withMessage({
+        message: "Permissions must be any of: {permissions}.",
+        params: { permissions: PERMISSIONS.join(", ") },
+      }),
+
+    body("priority")
+      .optional()
+      .isInt({ min: 0, max: ADMIN_PRIORITY })
+      .withMessage({
+        message: "Priority must be an integer between 0 and {max}.",
+        params: { max: ADMIN_PRIORITY },
+      })
+      .toInt(),
   ];
   Promise.all(validationRules.map((rule) => rule.run(req))).then(() => {
     next();
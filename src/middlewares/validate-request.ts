@@ -24,6 +24,7 @@ const keyMap: KeyMap<FieldValidationError> = {
  *   - Checks for validation errors using validationResult(req).
  *   - Filters out errors with the message "Invalid value".
  *   - Maps and renames keys of validation errors using keyMap.
+ *   - Spreads messages given as `{ message, params }` objects, so templated messages can be translated.
  *   - Throws a ParametricError containing the mapped validation errors if any validation errors exist.
  */
 export function validateRequest(
@@ -35,8 +36,13 @@ export function validateRequest(
   if (!errors.isEmpty()) {
     let errorsArr = errors
       .array()
-      .filter((err) => err.msg.toLowerCase() !== "invalid value")
-      .map((err) => renameKeys(err, keyMap));
+      .filter((err) => typeof err.msg !== "string" || err.msg.toLowerCase() !== "invalid value")
+      .map((err) => renameKeys(err, keyMap))
+      .map((err) =>
+        typeof err.message === "object" && err.message !== null
+          ? { ...err, ...err.message }
+          : err
+      );
     throw new ParametricError(errorsArr as IParametricError[]);
   }
   next();
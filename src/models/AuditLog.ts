@@ -0,0 +1,78 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+} from "@sequelize/core";
+import {
+  Attribute,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+} from "@sequelize/core/decorators-legacy";
+import { Snowflake } from "@theinternetfolks/snowflake";
+
+/**
+ * An append-only record of a sensitive action, e.g. a member's role being changed.
+ */
+@Table({ schema: "public", updatedAt: false })
+export class AuditLog extends Model<
+  InferAttributes<AuditLog>,
+  InferCreationAttributes<AuditLog>
+> {
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare id: string;
+
+  /**
+   * The ID of the user who performed the action.
+   */
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare actorId: string;
+
+  /**
+   * What happened, e.g. "member.role_changed".
+   */
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare action: string;
+
+  @Attribute(DataTypes.STRING)
+  declare communityId?: string | null;
+
+  /**
+   * The ID of the record the action was performed on.
+   */
+  @Attribute(DataTypes.STRING)
+  declare targetId?: string | null;
+
+  /**
+   * Action specific details, e.g. the previous and new values.
+   */
+  @Attribute(DataTypes.JSONB)
+  @NotNull
+  @Default({})
+  declare data?: Record<string, unknown>;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  /**
+   * Records an action in the audit log.
+   * @param {object} entry - The actor, action, and optionally the community, target and details of the action.
+   * @returns {Promise<AuditLog>} - The created audit log entry.
+   */
+  static async record(entry: {
+    actorId: string;
+    action: string;
+    communityId?: string | null;
+    targetId?: string | null;
+    data?: Record<string, unknown>;
+  }): Promise<AuditLog> {
+    return AuditLog.create({ id: Snowflake.generate(), ...entry });
+  }
+}
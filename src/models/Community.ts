@@ -1,11 +1,15 @@
 import {
   BelongsToGetAssociationMixin,
   BelongsToSetAssociationMixin,
+  CreationAttributes,
   DataTypes,
   InferAttributes,
   InferCreationAttributes,
+  Literal,
   Model,
   NonAttribute,
+  UniqueConstraintError,
+  sql,
 } from "@sequelize/core";
 import {
   Attribute,
@@ -15,11 +19,36 @@ import {
   NotNull,
   PrimaryKey,
   Table,
+  Unique,
 } from "@sequelize/core/decorators-legacy";
+import { Op } from "@sequelize/core";
+import { Snowflake } from "@theinternetfolks/snowflake";
 import { User } from "./User";
 import { Member } from "./Member";
+import { Role } from "./Role";
+import { OwnershipTransfer } from "./OwnershipTransfer";
+import { CommunitySlug } from "./CommunitySlug";
+import { JoinRequest } from "./JoinRequest";
+import { Invite } from "./Invite";
+import { slugify } from "../utils";
+import { TCommunityVisibility } from "../types";
 
-@Table({ schema: "public" })
+@Table({
+  schema: "public",
+  // Trigram indexes, so searching names and slugs with ILIKE does not scan the table.
+  indexes: [
+    {
+      name: "communities_name_trgm",
+      using: "GIN",
+      fields: [{ name: "name", operator: "gin_trgm_ops" }],
+    },
+    {
+      name: "communities_slug_trgm",
+      using: "GIN",
+      fields: [{ name: "slug", operator: "gin_trgm_ops" }],
+    },
+  ],
+})
 export class Community extends Model<
   InferAttributes<Community>,
   InferCreationAttributes<Community>
@@ -34,8 +63,29 @@ export class Community extends Model<
   declare name: string;
 
   @Attribute(DataTypes.STRING(255))
+  @Unique
+  @NotNull
   declare slug: string;
 
+  @Attribute(DataTypes.ENUM("public", "private", "hidden"))
+  @NotNull
+  @Default("public")
+  declare visibility?: TCommunityVisibility;
+
+  /**
+   * When set, admins and moderators need two-factor authentication enabled to use their permissions.
+   */
+  @Attribute(DataTypes.BOOLEAN)
+  @NotNull
+  @Default(false)
+  declare requireMfa?: boolean;
+
+  /**
+   * Set when the community is archived: it is hidden from listings and accepts no new members.
+   */
+  @Attribute(DataTypes.DATE)
+  declare archivedAt?: Date | null;
+
   @Attribute(DataTypes.DATE)
   @Default(new Date())
   declare createdAt?: Date;
@@ -52,6 +102,16 @@ export class Community extends Model<
   })
   declare members?: NonAttribute<Member[]>;
 
+  declare roles?: NonAttribute<Role[]>;
+
+  declare ownershipTransfers?: NonAttribute<OwnershipTransfer[]>;
+
+  declare slugHistory?: NonAttribute<CommunitySlug[]>;
+
+  declare joinRequests?: NonAttribute<JoinRequest[]>;
+
+  declare invites?: NonAttribute<Invite[]>;
+
   @BelongsTo(() => User, {
     foreignKey: "ownerId",
     inverse: {
@@ -68,4 +128,148 @@ export class Community extends Model<
   declare getOwner: BelongsToGetAssociationMixin<User>;
 
   declare setOwner: BelongsToSetAssociationMixin<User, Community["ownerId"]>;
+
+  /**
+   * Checks whether a user is a member of the community.
+   * @param {string} [userId] - Optional. The ID of the user; anonymous visitors are never members.
+   * @returns {Promise<boolean>} - True if the user has a member record in the community.
+   */
+  async hasMember(userId?: string): Promise<boolean> {
+    if (!userId) {
+      return false;
+    }
+    const count = await Member.count({ where: { communityId: this.id, userId } });
+    return count > 0;
+  }
+
+  /**
+   * Checks whether a user may see the community at all. Hidden communities only exist for their members.
+   * @param {string} [userId] - Optional. The ID of the user, if signed in.
+   * @returns {Promise<boolean>} - True if the community is visible to the user.
+   */
+  async isVisibleTo(userId?: string): Promise<boolean> {
+    return this.visibility !== "hidden" || (await this.hasMember(userId));
+  }
+
+  /**
+   * Checks whether a user may list the members of the community. Only public communities expose them to everyone.
+   * @param {string} [userId] - Optional. The ID of the user, if signed in.
+   * @returns {Promise<boolean>} - True if the member list is visible to the user.
+   */
+  async areMembersVisibleTo(userId?: string): Promise<boolean> {
+    return this.visibility === "public" || (await this.hasMember(userId));
+  }
+
+  /**
+   * Replaces the slug of the community, keeping the previous slug in the slug history
+   * so it still resolves to this community.
+   * @param {string} slug - The new slug, already checked with isSlugAvailable.
+   */
+  async changeSlug(slug: string): Promise<void> {
+    if (slug === this.slug) {
+      return;
+    }
+    // Reclaiming one of its own former slugs removes it from the history
+    await CommunitySlug.destroy({ where: { slug, communityId: this.id } });
+    await CommunitySlug.create({
+      id: Snowflake.generate(),
+      slug: this.slug,
+      communityId: this.id,
+    });
+    this.slug = slug;
+  }
+
+  /**
+   * Permanently deletes the community together with its members, ownership transfers, former slugs,
+   * join requests, invites and the roles scoped to it, inside a single transaction.
+   */
+  async destroyWithDependents(): Promise<void> {
+    const communityId = this.id;
+    await this.sequelize.transaction(async () => {
+      await Member.destroy({ where: { communityId } });
+      await OwnershipTransfer.destroy({ where: { communityId } });
+      await CommunitySlug.destroy({ where: { communityId } });
+      await JoinRequest.destroy({ where: { communityId } });
+      await Invite.destroy({ where: { communityId } });
+      await Role.destroy({ where: { communityId } });
+      await this.destroy();
+    });
+  }
+
+  /**
+   * Checks whether a slug is free, i.e. neither the current nor a former slug of another community.
+   * @param {string} slug - The slug to check.
+   * @param {string} [communityId] - Optional. The community the slug is meant for, whose own slugs do not count as taken.
+   * @returns {Promise<boolean>} - True if the slug can be used.
+   */
+  static async isSlugAvailable(slug: string, communityId?: string): Promise<boolean> {
+    const notSelf = communityId ? { [Op.ne]: communityId } : { [Op.ne]: null };
+    const current = await Community.count({ where: { slug, id: notSelf } });
+    const former = await CommunitySlug.count({ where: { slug, communityId: notSelf } });
+    return current === 0 && former === 0;
+  }
+
+  /**
+   * Derives a unique slug from a community name, suffixing "-2", "-3", ... on collisions.
+   * Names that slugify to digits only are prefixed with "community-".
+   * @param {string} name - The name of the community.
+   * @returns {Promise<string>} - A slug no other community currently uses or used before.
+   */
+  static async generateSlug(name: string): Promise<string> {
+    let base = slugify(name) || "community";
+    // A slug of digits only would be mistaken for a community ID
+    if (/^[0-9]+$/.test(base)) {
+      base = `community-${base}`;
+    }
+    let slug = base;
+    for (let suffix = 2; !(await Community.isSlugAvailable(slug)); suffix++) {
+      slug = `${base}-${suffix}`;
+    }
+    return slug;
+  }
+
+  /**
+   * Creates a community under a slug derived from its name.
+   * @param {Omit<CreationAttributes<Community>, "slug">} attributes - The attributes of the community.
+   * @returns {Promise<Community>} - The created community.
+   * @description
+   *   - Derives the slug again when another community took it between the availability check and the insert,
+   *     giving up after three attempts.
+   */
+  static async createWithSlug(
+    attributes: Omit<CreationAttributes<Community>, "slug">
+  ): Promise<Community> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await Community.create({
+          ...attributes,
+          slug: await Community.generateSlug(attributes.name),
+        });
+      } catch (error) {
+        if (!(error instanceof UniqueConstraintError) || !("slug" in error.fields) || attempt >= 3) {
+          throw error;
+        }
+      }
+    }
+  }
+
+  /**
+   * Reads the member count loaded alongside the community under the "memberCount" attribute.
+   * @returns {number | undefined} - The number of members, or undefined if the count was not loaded.
+   */
+  getMemberCount(): number | undefined {
+    const count = this.get("memberCount");
+    return count === undefined ? undefined : Number(count);
+  }
+
+  /**
+   * Builds an SQL expression counting the members of each community, to filter and sort listings by.
+   * @returns {Literal} - A correlated subquery, usable in queries on Community under its default alias.
+   */
+  static memberCount(): Literal {
+    const members = Member.queryGenerator.quoteTable(Member);
+    return sql.literal(
+      `(SELECT COUNT(*) FROM ${members} AS "m" WHERE "m"."communityId" = "Community"."id")::integer`
+    );
+  }
 }
@@ -0,0 +1,58 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  NonAttribute,
+} from "@sequelize/core";
+import {
+  Attribute,
+  BelongsTo,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+  Unique,
+} from "@sequelize/core/decorators-legacy";
+import { Community } from "./Community";
+
+/**
+ * A slug a community used before being renamed. Old slugs stay reserved
+ * so that links to them keep resolving to the community.
+ */
+@Table({ schema: "public" })
+export class CommunitySlug extends Model<
+  InferAttributes<CommunitySlug>,
+  InferCreationAttributes<CommunitySlug>
+> {
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare id: string;
+
+  @Attribute(DataTypes.STRING(255))
+  @Unique
+  @NotNull
+  declare slug: string;
+
+  @BelongsTo(() => Community, {
+    foreignKey: "communityId",
+    inverse: {
+      as: "slugHistory",
+      type: "hasMany",
+    },
+  })
+  declare community?: NonAttribute<Community>;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare communityId: string;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare updatedAt?: Date;
+}
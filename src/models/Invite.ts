@@ -0,0 +1,92 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  NonAttribute,
+} from "@sequelize/core";
+import {
+  Attribute,
+  BelongsTo,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+  Unique,
+} from "@sequelize/core/decorators-legacy";
+import { Community } from "./Community";
+
+/**
+ * An invite link to a community. Redeeming it makes the user a member straight away.
+ */
+@Table({ schema: "public" })
+export class Invite extends Model<
+  InferAttributes<Invite>,
+  InferCreationAttributes<Invite>
+> {
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare id: string;
+
+  @Attribute(DataTypes.STRING)
+  @Unique
+  @NotNull
+  declare token: string;
+
+  @BelongsTo(() => Community, {
+    foreignKey: "communityId",
+    inverse: {
+      as: "invites",
+      type: "hasMany",
+    },
+  })
+  declare community?: NonAttribute<Community>;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare communityId: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare createdBy: string;
+
+  @Attribute(DataTypes.DATE)
+  declare expiresAt?: Date | null;
+
+  /**
+   * How many times the invite can be redeemed, or null for no limit.
+   */
+  @Attribute(DataTypes.INTEGER)
+  declare maxUses?: number | null;
+
+  @Attribute(DataTypes.INTEGER)
+  @NotNull
+  @Default(0)
+  declare uses?: number;
+
+  @Attribute(DataTypes.DATE)
+  declare revokedAt?: Date | null;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare updatedAt?: Date;
+
+  /**
+   * Checks whether the invite can still be redeemed.
+   * @returns {boolean} - False if the invite was revoked, has expired or has no uses left.
+   */
+  isRedeemable(): boolean {
+    if (this.revokedAt) {
+      return false;
+    }
+    if (this.expiresAt && this.expiresAt.getTime() <= Date.now()) {
+      return false;
+    }
+    return this.maxUses == null || (this.uses ?? 0) < this.maxUses;
+  }
+}
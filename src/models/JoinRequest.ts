@@ -0,0 +1,67 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  NonAttribute,
+} from "@sequelize/core";
+import {
+  Attribute,
+  BelongsTo,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+} from "@sequelize/core/decorators-legacy";
+import { Community } from "./Community";
+import { TJoinRequestStatus } from "../types";
+
+/**
+ * A user's request to join a community, reviewed by its admins and moderators.
+ */
+@Table({ schema: "public" })
+export class JoinRequest extends Model<
+  InferAttributes<JoinRequest>,
+  InferCreationAttributes<JoinRequest>
+> {
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare id: string;
+
+  @BelongsTo(() => Community, {
+    foreignKey: "communityId",
+    inverse: {
+      as: "joinRequests",
+      type: "hasMany",
+    },
+  })
+  declare community?: NonAttribute<Community>;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare communityId: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare userId: string;
+
+  @Attribute(DataTypes.ENUM("pending", "approved", "rejected"))
+  @NotNull
+  @Default("pending")
+  declare status?: TJoinRequestStatus;
+
+  @Attribute(DataTypes.STRING)
+  declare reviewedBy?: string | null;
+
+  @Attribute(DataTypes.DATE)
+  declare reviewedAt?: Date | null;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare updatedAt?: Date;
+}
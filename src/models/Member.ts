@@ -16,6 +16,9 @@ import {
 import { Community } from "./Community";
 import { User } from "./User";
 import { Role } from "./Role";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { Op } from "@sequelize/core";
+import { ADMIN_PRIORITY, COMMUNITY_MEMBER } from "../config";
 
 @Table({ schema: "public" })
 export class Member extends Model<
@@ -54,4 +57,69 @@ export class Member extends Model<
   declare getRole: BelongsToGetAssociationMixin<Role>;
   declare getUser: BelongsToGetAssociationMixin<User>;
 
+  /**
+   * Ranks the member inside its community: the owner outranks everyone, other members rank by their role's priority.
+   * @returns {Promise<number>} - The rank of the member, Infinity for the owner.
+   */
+  async getRank(): Promise<number> {
+    const community = await this.getCommunity();
+    if (community?.ownerId === this.userId) {
+      return Infinity;
+    }
+    const role = this.role ?? (await this.getRole());
+    return role?.priority ?? 0;
+  }
+
+  /**
+   * Ranks the user a request acts for, from the membership requirePermission stored on the request.
+   * requirePermission only lets users without a membership through when they own the community, so they rank highest.
+   * @param {Member} [membership] - Optional. The membership of the user in the community, i.e. `req.membership`.
+   * @returns {Promise<number>} - The rank of the user, Infinity for the owner.
+   */
+  static async rankOf(membership?: Member): Promise<number> {
+    return membership ? membership.getRank() : Infinity;
+  }
+
+  /**
+   * Checks whether this member is the only admin-level member of its community.
+   * @returns {Promise<boolean>} - True if removing or demoting this member would leave the community without an admin.
+   */
+  async isLastAdmin(): Promise<boolean> {
+    const role = this.role ?? (await this.getRole());
+    if ((role?.priority ?? 0) < ADMIN_PRIORITY) {
+      return false;
+    }
+    const admins = await Member.count({
+      where: {
+        communityId: this.communityId,
+      },
+      include: [
+        {
+          association: "role",
+          where: {
+            priority: {
+              [Op.gte]: ADMIN_PRIORITY,
+            },
+          },
+        },
+      ],
+    });
+    return admins <= 1;
+  }
+
+  /**
+   * Adds a user to a community with the built-in "Community Member" role.
+   * @param {string} communityId - The ID of the community to join.
+   * @param {string} userId - The ID of the joining user.
+   * @returns {Promise<Member>} - The created member record.
+   */
+  static async addWithDefaultRole(communityId: string, userId: string): Promise<Member> {
+    const role = await Role.getDefault(COMMUNITY_MEMBER);
+    return Member.create({
+      id: Snowflake.generate(),
+      communityId,
+      userId,
+      roleId: role.id,
+    });
+  }
 }
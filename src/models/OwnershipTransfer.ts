@@ -0,0 +1,69 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  NonAttribute,
+} from "@sequelize/core";
+import {
+  Attribute,
+  BelongsTo,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+} from "@sequelize/core/decorators-legacy";
+import { Community } from "./Community";
+import { TTransferStatus } from "../types";
+
+/**
+ * A request from a community owner to hand the community over to another member.
+ * Rows are kept once answered so they double as the community's ownership history.
+ */
+@Table({ schema: "public" })
+export class OwnershipTransfer extends Model<
+  InferAttributes<OwnershipTransfer>,
+  InferCreationAttributes<OwnershipTransfer>
+> {
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare id: string;
+
+  @BelongsTo(() => Community, {
+    foreignKey: "communityId",
+    inverse: {
+      as: "ownershipTransfers",
+      type: "hasMany",
+    },
+  })
+  declare community?: NonAttribute<Community>;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare communityId: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare fromUserId: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare toUserId: string;
+
+  @Attribute(DataTypes.ENUM("pending", "accepted", "declined", "cancelled"))
+  @NotNull
+  @Default("pending")
+  declare status?: TTransferStatus;
+
+  @Attribute(DataTypes.DATE)
+  declare respondedAt?: Date | null;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare updatedAt?: Date;
+}
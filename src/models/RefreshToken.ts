@@ -0,0 +1,156 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+} from "@sequelize/core";
+import {
+  Attribute,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+  Unique,
+} from "@sequelize/core/decorators-legacy";
+import { Op } from "@sequelize/core";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { REFRESH_TOKEN_TTL } from "../config";
+import { generateToken, hashToken } from "../utils";
+
+/**
+ * A long-lived token exchanged for new access tokens. Only its hash is stored,
+ * and each token can be used once: using it rotates it into a new one.
+ */
+@Table({ schema: "public" })
+export class RefreshToken extends Model<
+  InferAttributes<RefreshToken>,
+  InferCreationAttributes<RefreshToken>
+> {
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare id: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare userId: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare sessionId: string;
+
+  @Attribute(DataTypes.STRING)
+  @Unique
+  @NotNull
+  declare tokenHash: string;
+
+  @Attribute(DataTypes.DATE)
+  @NotNull
+  declare expiresAt: Date;
+
+  @Attribute(DataTypes.DATE)
+  declare revokedAt?: Date | null;
+
+  /**
+   * The ID of the token this one was rotated into.
+   */
+  @Attribute(DataTypes.STRING)
+  declare replacedById?: string | null;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare updatedAt?: Date;
+
+  /**
+   * Issues a new refresh token for a session of a user.
+   * @param {string} userId - The ID of the user.
+   * @param {string} sessionId - The ID of the session the token belongs to.
+   * @returns {Promise<{ token: string; record: RefreshToken }>} - The plain token, to hand to the client, and its stored record.
+   */
+  static async issue(userId: string, sessionId: string): Promise<{ token: string; record: RefreshToken }> {
+    const token = generateToken();
+    const record = await RefreshToken.create({
+      id: Snowflake.generate(),
+      userId,
+      sessionId,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL * 1000),
+    });
+    return { token, record };
+  }
+
+  /**
+   * Exchanges a refresh token for a new one, revoking the used token.
+   * Presenting a token that was already rotated means it leaked, so every token of its user is revoked.
+   * A token can only be rotated once, even by concurrent requests.
+   * @param {string} token - The plain refresh token presented by the client.
+   * @returns {Promise<{ token: string; record: RefreshToken } | null>} - The new token, or null if the presented token is unknown, expired or revoked.
+   */
+  static async rotate(token: string): Promise<{ token: string; record: RefreshToken } | null> {
+    const current = await RefreshToken.findOne({
+      where: { tokenHash: hashToken(token) },
+    });
+    if (!current || current.expiresAt.getTime() <= Date.now()) {
+      return null;
+    }
+    if (current.revokedAt) {
+      if (current.replacedById) {
+        await RefreshToken.revokeAllFor(current.userId);
+      }
+      return null;
+    }
+
+    const [affected] = await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { id: current.id, revokedAt: null } }
+    );
+    if (affected !== 1) {
+      return null;
+    }
+
+    const next = await RefreshToken.issue(current.userId, current.sessionId);
+    await RefreshToken.update(
+      { replacedById: next.record.id },
+      { where: { id: current.id } }
+    );
+    return next;
+  }
+
+  /**
+   * Finds the session a refresh token belongs to, whether or not the token is still usable.
+   * @param {string} token - The plain refresh token presented by the client.
+   * @returns {Promise<string | undefined>} - The ID of the session, or undefined if the token is unknown.
+   */
+  static async sessionIdOf(token: string): Promise<string | undefined> {
+    const record = await RefreshToken.findOne({
+      where: { tokenHash: hashToken(token) },
+    });
+    return record?.sessionId;
+  }
+
+  /**
+   * Revokes a refresh token, if it exists.
+   * @param {string} token - The plain refresh token.
+   */
+  static async revoke(token: string): Promise<void> {
+    await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { tokenHash: hashToken(token), revokedAt: null } }
+    );
+  }
+
+  /**
+   * Revokes every active refresh token of a user.
+   * @param {string} userId - The ID of the user.
+   */
+  static async revokeAllFor(userId: string): Promise<void> {
+    await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { userId, revokedAt: null, expiresAt: { [Op.gt]: new Date() } } }
+    );
+  }
+}
@@ -0,0 +1,62 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+} from "@sequelize/core";
+import {
+  Attribute,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+} from "@sequelize/core/decorators-legacy";
+import { Op } from "@sequelize/core";
+
+/**
+ * An access token revoked before its expiry, e.g. on signout. Entries are only
+ * needed until the token would have expired anyway.
+ */
+@Table({ schema: "public", updatedAt: false })
+export class RevokedToken extends Model<
+  InferAttributes<RevokedToken>,
+  InferCreationAttributes<RevokedToken>
+> {
+  /**
+   * The `jti` claim of the revoked access token.
+   */
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare jti: string;
+
+  @Attribute(DataTypes.DATE)
+  @NotNull
+  declare expiresAt: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  /**
+   * Adds an access token to the revocation list and drops entries of tokens that expired since.
+   * @param {string} jti - The `jti` claim of the token.
+   * @param {number} exp - The `exp` claim of the token, in seconds since the epoch.
+   */
+  static async revoke(jti: string, exp: number): Promise<void> {
+    await RevokedToken.destroy({ where: { expiresAt: { [Op.lt]: new Date() } } });
+    await RevokedToken.findOrCreate({
+      where: { jti },
+      defaults: { jti, expiresAt: new Date(exp * 1000) },
+    });
+  }
+
+  /**
+   * Checks whether an access token was revoked.
+   * @param {string} jti - The `jti` claim of the token.
+   * @returns {Promise<boolean>} - True if the token is on the revocation list.
+   */
+  static async isRevoked(jti: string): Promise<boolean> {
+    return (await RevokedToken.count({ where: { jti } })) > 0;
+  }
+}
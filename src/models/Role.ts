@@ -7,13 +7,18 @@ import {
   } from "@sequelize/core";
   import {
     Attribute,
+    BelongsTo,
     Default,
     HasMany,
     NotNull,
     PrimaryKey,
     Table,
   } from "@sequelize/core/decorators-legacy";
+import { Snowflake } from "@theinternetfolks/snowflake";
 import { Member } from "./Member";
+import { Community } from "./Community";
+import { DEFAULT_ROLES } from "../config";
+import { TPermission } from "../types";
   
   @Table({ schema: "public" })
   export class Role extends Model<
@@ -28,6 +33,35 @@ import { Member } from "./Member";
     @Attribute(DataTypes.STRING)
     @NotNull
     declare name: string;
+
+    @Attribute(DataTypes.ARRAY(DataTypes.STRING))
+    @NotNull
+    @Default([])
+    declare permissions?: TPermission[];
+
+    /**
+     * Rank of the role inside a community. Members can only manage members ranked below them
+     * and cannot grant roles ranked above their own.
+     */
+    @Attribute(DataTypes.INTEGER)
+    @NotNull
+    @Default(0)
+    declare priority?: number;
+
+    @BelongsTo(() => Community, {
+      foreignKey: "communityId",
+      inverse: {
+        as: "roles",
+        type: "hasMany"
+      }
+    })
+    declare community?: NonAttribute<Community>;
+
+    /**
+     * The community this custom role belongs to, or null for the built-in roles shared by every community.
+     */
+    @Attribute(DataTypes.STRING)
+    declare communityId?: string | null;
   
     @Attribute(DataTypes.DATE)
     @Default(new Date())
@@ -44,5 +78,57 @@ import { Member } from "./Member";
       }
     })
     declare roleIs?: NonAttribute<Member[]>;
+
+    /**
+     * Checks whether this role grants every one of the given permissions.
+     * @param {TPermission[]} permissions - The permissions to look for.
+     * @returns {boolean} - True if all permissions are granted by this role.
+     */
+    hasPermissions(permissions: TPermission[]): boolean {
+      const granted = this.permissions ?? [];
+      return permissions.every((permission) => granted.includes(permission));
+    }
+
+    /**
+     * Checks whether this role may be assigned to members of the given community.
+     * @param {string} communityId - The ID of the community.
+     * @returns {boolean} - True if the role is global or belongs to the community.
+     */
+    isUsableIn(communityId: string): boolean {
+      return !this.communityId || this.communityId === communityId;
+    }
+
+    /**
+     * Retrieves one of the built-in roles, creating it if it does not exist yet
+     * and resetting its permissions and priority if they drifted from the built-in definition.
+     * @param {string} name - The name of the built-in role, e.g. "Community Admin".
+     * @returns {Promise<Role>} - The built-in role.
+     */
+    static async getDefault(name: string): Promise<Role> {
+      const { permissions, priority } = DEFAULT_ROLES[name];
+
+      let role = await Role.findOne({ where: { name, communityId: null } });
+      if (!role) {
+        return Role.create({ id: Snowflake.generate(), name, permissions, priority });
+      }
+
+      const granted = role.permissions ?? [];
+      if (
+        granted.length !== permissions.length ||
+        !role.hasPermissions(permissions) ||
+        role.priority !== priority
+      ) {
+        role = await role.update({ permissions, priority });
+      }
+      return role;
+    }
+
+    /**
+     * Ensures all built-in roles exist with their expected permissions.
+     */
+    static async seedDefaults(): Promise<void> {
+      for (const name of Object.keys(DEFAULT_ROLES)) {
+        await Role.getDefault(name);
+      }
+    }
   }
-  
\ No newline at end of file
@@ -0,0 +1,154 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+} from "@sequelize/core";
+import {
+  Attribute,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+} from "@sequelize/core/decorators-legacy";
+import { SIGNIN_FAILURE_WINDOW, SIGNIN_LOCKOUT } from "../config";
+
+/**
+ * Failed signin attempts for an account or an IP address, within the current window.
+ * Too many failures lock the key out for a while.
+ */
+@Table({ schema: "public" })
+export class SigninThrottle extends Model<
+  InferAttributes<SigninThrottle>,
+  InferCreationAttributes<SigninThrottle>
+> {
+  /**
+   * Either "account:<email>" or "ip:<address>".
+   */
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare key: string;
+
+  @Attribute(DataTypes.INTEGER)
+  @NotNull
+  @Default(0)
+  declare failures?: number;
+
+  @Attribute(DataTypes.DATE)
+  @NotNull
+  declare windowStartedAt: Date;
+
+  @Attribute(DataTypes.DATE)
+  declare lockedUntil?: Date | null;
+
+  /**
+   * The IP addresses that failed on an account key, so an admin unlock can lift their lockouts too.
+   */
+  @Attribute(DataTypes.ARRAY(DataTypes.STRING))
+  @NotNull
+  @Default([])
+  declare addresses?: string[];
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare updatedAt?: Date;
+
+  /**
+   * Builds the throttle key of an account. Keyed by email rather than user ID so unknown emails are throttled alike.
+   * @param {string} email - The email the signin was attempted with.
+   * @returns {string} - The throttle key.
+   */
+  static accountKey(email: string): string {
+    return `account:${email.trim().toLowerCase()}`;
+  }
+
+  /**
+   * Builds the throttle key of an IP address.
+   * @param {string} ip - The address the signin was attempted from.
+   * @returns {string} - The throttle key.
+   */
+  static ipKey(ip: string): string {
+    return `ip:${ip}`;
+  }
+
+  /**
+   * Checks how the given keys are being throttled.
+   * @param {string[]} keys - The throttle keys of the attempt.
+   * @returns {Promise<{ lockedUntil: Date | null; failures: number }>} - The latest lockout still in effect, if any, and the highest failure count within the window.
+   */
+  static async assess(keys: string[]): Promise<{ lockedUntil: Date | null; failures: number }> {
+    const records = await SigninThrottle.findAll({ where: { key: keys } });
+    const now = Date.now();
+
+    let lockedUntil: Date | null = null;
+    let failures = 0;
+    for (const record of records) {
+      if (record.lockedUntil && record.lockedUntil.getTime() > now) {
+        if (!lockedUntil || record.lockedUntil > lockedUntil) {
+          lockedUntil = record.lockedUntil;
+        }
+      }
+      if (now - record.windowStartedAt.getTime() <= SIGNIN_FAILURE_WINDOW * 1000) {
+        failures = Math.max(failures, record.failures ?? 0);
+      }
+    }
+    return { lockedUntil, failures };
+  }
+
+  /**
+   * Records a failed attempt, locking the key out once it reaches the maximum within the window.
+   * The record is locked for the duration of the update so concurrent failures are all counted.
+   * @param {string} key - The throttle key.
+   * @param {number} maxFailures - How many failures within the window lock the key out.
+   * @param {string} [address] - Optional. The IP address the attempt came from, remembered on the record.
+   */
+  static async recordFailure(key: string, maxFailures: number, address?: string): Promise<void> {
+    await SigninThrottle.sequelize.transaction(async () => {
+      const now = new Date();
+      await SigninThrottle.bulkCreate(
+        [{ key, failures: 0, windowStartedAt: now }],
+        { ignoreDuplicates: true }
+      );
+      const record = (await SigninThrottle.findByPk(key, { lock: true }))!;
+
+      const windowExpired =
+        now.getTime() - record.windowStartedAt.getTime() > SIGNIN_FAILURE_WINDOW * 1000;
+      const failures = windowExpired ? 1 : (record.failures ?? 0) + 1;
+      const addresses = record.addresses ?? [];
+      await record.update({
+        failures,
+        windowStartedAt: windowExpired ? now : record.windowStartedAt,
+        lockedUntil:
+          failures >= maxFailures
+            ? new Date(now.getTime() + SIGNIN_LOCKOUT * 1000)
+            : record.lockedUntil,
+        addresses:
+          address && !addresses.includes(address) ? [...addresses, address] : addresses,
+      });
+    });
+  }
+
+  /**
+   * Forgets the failures and lockout of a key, e.g. after a successful signin or an admin unlock.
+   * @param {string} key - The throttle key.
+   */
+  static async clear(key: string): Promise<void> {
+    await SigninThrottle.destroy({ where: { key } });
+  }
+
+  /**
+   * Lifts the lockout of an account, along with the lockouts of the IP addresses that failed on it.
+   * @param {string} email - The email of the account.
+   */
+  static async unlockAccount(email: string): Promise<void> {
+    const accountKey = SigninThrottle.accountKey(email);
+    const record = await SigninThrottle.findByPk(accountKey);
+    const ipKeys = (record?.addresses ?? []).map((address) => SigninThrottle.ipKey(address));
+    await SigninThrottle.destroy({ where: { key: [accountKey, ...ipKeys] } });
+  }
+}
@@ -3,12 +3,16 @@ import {
   HasManyGetAssociationsMixin,
   InferAttributes,
   InferCreationAttributes,
+  Literal,
   Model,
   NonAttribute,
+  Op,
+  sql,
 } from "@sequelize/core";
 import {
   Attribute,
   BeforeCreate,
+  BeforeUpdate,
   Default,
   HasMany,
   NotNull,
@@ -17,11 +21,32 @@ import {
   Unique,
 } from "@sequelize/core/decorators-legacy";
 import { IsEmail } from "@sequelize/validator.js";
-import { hashPassword } from "../utils";
+import { generateRecoveryCode, generateToken, hashPassword, hashToken, verifyTotp } from "../utils";
+import { BIO_MAX_LENGTH, DEFAULT_PUBLIC_FIELDS, EMAIL_VERIFICATION_TTL, MFA_RECOVERY_CODE_COUNT, PLATFORM_ADMIN_EMAILS } from "../config";
+import { TProfileField } from "../types";
+import { sendMail } from "../mailer";
 import { Community } from "./Community";
 import { Member } from "./Member";
+import { RefreshToken } from "./RefreshToken";
+import { UserSession } from "./UserSession";
+import { UserToken } from "./UserToken";
 
-@Table({ schema: "public" })
+@Table({
+  schema: "public",
+  // Trigram indexes, so searching members and users by name or email with ILIKE does not scan the table.
+  indexes: [
+    {
+      name: "users_name_trgm",
+      using: "GIN",
+      fields: [{ name: "name", operator: "gin_trgm_ops" }],
+    },
+    {
+      name: "users_email_trgm",
+      using: "GIN",
+      fields: [{ name: "email", operator: "gin_trgm_ops" }],
+    },
+  ],
+})
 export class User extends Model<
   InferAttributes<User>,
   InferCreationAttributes<User>
@@ -45,6 +70,106 @@ export class User extends Model<
   @NotNull
   declare password: string;
 
+  @Attribute(DataTypes.STRING(BIO_MAX_LENGTH))
+  declare bio?: string | null;
+
+  @Attribute(DataTypes.STRING(2048))
+  declare avatarUrl?: string | null;
+
+  /**
+   * An IANA time zone, e.g. "Europe/Berlin".
+   */
+  @Attribute(DataTypes.STRING)
+  declare timezone?: string | null;
+
+  /**
+   * A BCP 47 language tag, e.g. "en-GB".
+   */
+  @Attribute(DataTypes.STRING(35))
+  declare locale?: string | null;
+
+  /**
+   * The profile fields shown on the user's public profile.
+   */
+  @Attribute(DataTypes.ARRAY(DataTypes.STRING))
+  @NotNull
+  @Default(DEFAULT_PUBLIC_FIELDS)
+  declare publicFields?: TProfileField[];
+
+  /**
+   * When the user proved they own their email address, or null if they have not yet.
+   */
+  @Attribute(DataTypes.DATE)
+  declare emailVerifiedAt?: Date | null;
+
+  /**
+   * A new email address the user asked to change to. It only replaces `email` once verified.
+   */
+  @Attribute(DataTypes.STRING)
+  @IsEmail
+  declare pendingEmail?: string | null;
+
+  /**
+   * Platform admins can manage users and communities across the whole platform.
+   */
+  @Attribute(DataTypes.BOOLEAN)
+  @NotNull
+  @Default(false)
+  declare isPlatformAdmin?: boolean;
+
+  /**
+   * The base32 TOTP secret. Set on enrollment, but only in use once mfaEnabledAt is set.
+   */
+  @Attribute(DataTypes.STRING)
+  declare mfaSecret?: string | null;
+
+  @Attribute(DataTypes.DATE)
+  declare mfaEnabledAt?: Date | null;
+
+  /**
+   * The TOTP period of the last accepted code, so a code cannot be used twice.
+   */
+  @Attribute(DataTypes.INTEGER)
+  declare mfaLastStep?: number | null;
+
+  /**
+   * Hashes of the unused recovery codes.
+   */
+  @Attribute(DataTypes.ARRAY(DataTypes.STRING))
+  @NotNull
+  @Default([])
+  declare mfaRecoveryCodes?: string[];
+
+  /**
+   * Set while a platform admin suspended the user; they cannot sign in or use their tokens until then.
+   */
+  @Attribute(DataTypes.DATE)
+  declare suspendedUntil?: Date | null;
+
+  /**
+   * Set when a platform admin banned the user for good.
+   */
+  @Attribute(DataTypes.DATE)
+  declare bannedAt?: Date | null;
+
+  /**
+   * Why the user was suspended or banned, shown to them.
+   */
+  @Attribute(DataTypes.STRING(500))
+  declare suspensionReason?: string | null;
+
+  /**
+   * Set when the user deleted their account. The row is kept, anonymized, so records referring to the user stay intact.
+   */
+  @Attribute(DataTypes.DATE)
+  declare deletedAt?: Date | null;
+
+  /**
+   * Access tokens issued before this time are rejected ("log out everywhere").
+   */
+  @Attribute(DataTypes.DATE)
+  declare tokensRevokedAt?: Date | null;
+
   @Attribute(DataTypes.DATE)
   @Default(new Date())
   declare createdAt?: Date;
@@ -65,9 +190,172 @@ export class User extends Model<
 
   declare getOwnedCommunities: HasManyGetAssociationsMixin<Community>;
 
+  /**
+   * Checks whether an access token issued at the given time is still accepted for this user.
+   * @param {number} iat - The `iat` claim of the token, in seconds since the epoch.
+   * @returns {boolean} - False if the user logged out everywhere after the token was issued.
+   */
+  acceptsTokenIssuedAt(iat: number): boolean {
+    return !this.tokensRevokedAt || iat >= Math.floor(this.tokensRevokedAt.getTime() / 1000);
+  }
+
+  /**
+   * Logs the user out everywhere: rejects every access token issued so far and revokes all sessions and refresh tokens.
+   */
+  async revokeAllTokens(): Promise<void> {
+    await this.update({ tokensRevokedAt: new Date() });
+    await UserSession.revokeAllFor(this.id);
+    await RefreshToken.revokeAllFor(this.id);
+  }
+
+  /**
+   * Mails the user a token to verify their email address with, invalidating earlier ones.
+   * The token goes to the pending email address if the user is changing it.
+   */
+  async requestEmailVerification(): Promise<void> {
+    const token = await UserToken.issue(this.id, "email_verification", EMAIL_VERIFICATION_TTL);
+    await sendMail({
+      to: this.pendingEmail ?? this.email,
+      subject: "Verify your email address",
+      text:
+        `Use this token to verify your email address: ${token}\n\n` +
+        `It expires in ${Math.round(EMAIL_VERIFICATION_TTL / 3600)} hours.`,
+    });
+  }
+
+  /**
+   * Checks a two-factor code: a TOTP code, or once two-factor authentication is enabled, an unused recovery code.
+   * Accepted codes are used up.
+   * @param {string} code - The code entered by the user.
+   * @returns {Promise<boolean>} - True if the code was accepted.
+   */
+  async verifyMfaCode(code: string): Promise<boolean> {
+    if (!this.mfaSecret) {
+      return false;
+    }
+
+    const step = verifyTotp(this.mfaSecret, code, this.mfaLastStep);
+    if (step !== null) {
+      await this.update({ mfaLastStep: step });
+      return true;
+    }
+
+    const hash = hashToken(code.trim().toLowerCase());
+    const codes = this.mfaRecoveryCodes ?? [];
+    if (this.mfaEnabledAt && codes.includes(hash)) {
+      await this.update({ mfaRecoveryCodes: codes.filter((c) => c !== hash) });
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Replaces the recovery codes of the user with new ones.
+   * @returns {Promise<string[]>} - The new codes, to be shown to the user once; only their hashes are stored.
+   */
+  async regenerateRecoveryCodes(): Promise<string[]> {
+    const codes = Array.from({ length: MFA_RECOVERY_CODE_COUNT }, generateRecoveryCode);
+    await this.update({ mfaRecoveryCodes: codes.map(hashToken) });
+    return codes;
+  }
+
+  /**
+   * Checks whether the user is currently banned or suspended.
+   * @returns {boolean} - True if the user may not sign in or use their tokens.
+   */
+  isSuspended(): boolean {
+    return Boolean(
+      this.bannedAt ||
+        (this.suspendedUntil && this.suspendedUntil.getTime() > Date.now())
+    );
+  }
+
+  /**
+   * Describes why the user may not sign in, for the error shown to them.
+   * @returns {{ message: string; params: Record<string, string> }} - The message template and its params,
+   *   including the reason and end of a suspension when known.
+   */
+  suspensionMessage(): { message: string; params: Record<string, string> } {
+    const reason = this.suspensionReason ? " Reason: {reason}" : "";
+    const params: Record<string, string> = {};
+    if (this.suspensionReason) {
+      params.reason = this.suspensionReason;
+    }
+    if (this.bannedAt) {
+      return { message: `Your account has been banned.${reason}`, params };
+    }
+    params.until = this.suspendedUntil!.toISOString();
+    return { message: `Your account is suspended until {until}.${reason}`, params };
+  }
+
+  /**
+   * Erases the personal data of the user when they delete their account, and makes it impossible to sign in to it.
+   */
+  async anonymize(): Promise<void> {
+    const now = new Date();
+    await this.update({
+      name: "Deleted user",
+      email: `deleted-${this.id}@deleted.invalid`,
+      password: generateToken(),
+      bio: null,
+      avatarUrl: null,
+      timezone: null,
+      locale: null,
+      publicFields: [],
+      emailVerifiedAt: null,
+      pendingEmail: null,
+      mfaSecret: null,
+      mfaEnabledAt: null,
+      mfaLastStep: null,
+      mfaRecoveryCodes: [],
+      tokensRevokedAt: now,
+      deletedAt: now,
+    });
+  }
+
+  /**
+   * Builds an SQL subquery selecting the ids of the users whose name matches a pattern, to filter rows referencing users.
+   * @param {string} pattern - The ILIKE pattern, bound as a parameter.
+   * @returns {Literal} - The subquery, usable as the operand of Op.in.
+   */
+  static idsWithNameLike(pattern: string): Literal {
+    const users = sql.literal(User.queryGenerator.quoteTable(User));
+    return sql`(SELECT "id" FROM ${users} WHERE "name" ILIKE ${pattern})`;
+  }
+
+  /**
+   * Promotes the users whose email is listed in NODE_PLATFORM_ADMIN_EMAILS to platform admin.
+   * Called on startup so a fresh deployment has a way to get its first admin. Only verified addresses count,
+   * otherwise anyone could sign up with a listed address and be promoted on the next restart.
+   * @param {string[]} [emails] - Optional. The addresses to promote, NODE_PLATFORM_ADMIN_EMAILS by default.
+   */
+  static async syncPlatformAdmins(emails: string[] = PLATFORM_ADMIN_EMAILS): Promise<void> {
+    if (emails.length === 0) {
+      return;
+    }
+    await User.update(
+      { isPlatformAdmin: true },
+      {
+        where: {
+          email: emails,
+          emailVerifiedAt: { [Op.ne]: null },
+          isPlatformAdmin: false,
+        },
+      }
+    );
+  }
+
   @BeforeCreate
   static async hashPass(user: User) {
     user.password = await hashPassword(user.password);
     return;
   }
+
+  @BeforeUpdate
+  static async rehashPass(user: User) {
+    if (user.changed("password")) {
+      user.password = await hashPassword(user.password);
+    }
+    return;
+  }
 }
@@ -0,0 +1,99 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  Op,
+} from "@sequelize/core";
+import {
+  Attribute,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+} from "@sequelize/core/decorators-legacy";
+import { RefreshToken } from "./RefreshToken";
+
+/**
+ * A signed in device of a user, created on signup or signin. Access and refresh
+ * tokens carry the ID of their session and stop working once it is revoked.
+ */
+@Table({ schema: "public" })
+export class UserSession extends Model<
+  InferAttributes<UserSession>,
+  InferCreationAttributes<UserSession>
+> {
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare id: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare userId: string;
+
+  @Attribute(DataTypes.STRING(512))
+  declare userAgent?: string | null;
+
+  @Attribute(DataTypes.STRING)
+  declare ip?: string | null;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare lastSeenAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  declare revokedAt?: Date | null;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare updatedAt?: Date;
+
+  /**
+   * Records that the session was used, at most once a minute to spare writes.
+   */
+  async touch(): Promise<void> {
+    if (!this.lastSeenAt || Date.now() - this.lastSeenAt.getTime() > 60 * 1000) {
+      await this.update({ lastSeenAt: new Date() });
+    }
+  }
+
+  /**
+   * Revokes the session along with its refresh tokens.
+   */
+  async revoke(): Promise<void> {
+    await this.update({ revokedAt: new Date() });
+    await RefreshToken.update(
+      { revokedAt: new Date() },
+      { where: { sessionId: this.id, revokedAt: null } }
+    );
+  }
+
+  /**
+   * Revokes every active session of a user along with their refresh tokens.
+   * @param {string} userId - The ID of the user.
+   * @param {string} [exceptId] - The ID of a session to keep, e.g. the one making the request.
+   */
+  static async revokeAllFor(userId: string, exceptId?: string): Promise<void> {
+    const where = {
+      userId,
+      revokedAt: null,
+      ...(exceptId && { id: { [Op.ne]: exceptId } }),
+    };
+    const sessions = await UserSession.findAll({ where, attributes: ["id"] });
+    await UserSession.update({ revokedAt: new Date() }, { where });
+    await RefreshToken.update(
+      { revokedAt: new Date() },
+      {
+        where: {
+          sessionId: sessions.map((session) => session.id),
+          revokedAt: null,
+        },
+      }
+    );
+  }
+}
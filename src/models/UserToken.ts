@@ -0,0 +1,110 @@
+import {
+  DataTypes,
+  InferAttributes,
+  InferCreationAttributes,
+  Model,
+  Op,
+} from "@sequelize/core";
+import {
+  Attribute,
+  Default,
+  NotNull,
+  PrimaryKey,
+  Table,
+  Unique,
+} from "@sequelize/core/decorators-legacy";
+import { Snowflake } from "@theinternetfolks/snowflake";
+import { TUserTokenPurpose } from "../types";
+import { generateToken, hashToken } from "../utils";
+
+/**
+ * A single-use, expiring token mailed to a user, e.g. to reset their password.
+ * Only its hash is stored.
+ */
+@Table({ schema: "public" })
+export class UserToken extends Model<
+  InferAttributes<UserToken>,
+  InferCreationAttributes<UserToken>
+> {
+  @Attribute(DataTypes.STRING)
+  @PrimaryKey
+  @NotNull
+  declare id: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare userId: string;
+
+  @Attribute(DataTypes.STRING)
+  @NotNull
+  declare purpose: TUserTokenPurpose;
+
+  @Attribute(DataTypes.STRING)
+  @Unique
+  @NotNull
+  declare tokenHash: string;
+
+  @Attribute(DataTypes.DATE)
+  @NotNull
+  declare expiresAt: Date;
+
+  @Attribute(DataTypes.DATE)
+  declare usedAt?: Date | null;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare createdAt?: Date;
+
+  @Attribute(DataTypes.DATE)
+  @Default(new Date())
+  declare updatedAt?: Date;
+
+  /**
+   * Issues a token for a user, invalidating the unused tokens they had for the same purpose.
+   * @param {string} userId - The ID of the user.
+   * @param {TUserTokenPurpose} purpose - What the token can be used for.
+   * @param {number} ttl - How long the token is valid, in seconds.
+   * @returns {Promise<string>} - The plain token, to be mailed to the user.
+   */
+  static async issue(userId: string, purpose: TUserTokenPurpose, ttl: number): Promise<string> {
+    await UserToken.update(
+      { usedAt: new Date() },
+      { where: { userId, purpose, usedAt: null } }
+    );
+
+    const token = generateToken();
+    await UserToken.create({
+      id: Snowflake.generate(),
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + ttl * 1000),
+    });
+    return token;
+  }
+
+  /**
+   * Uses up a token. A token can only be consumed once, even by concurrent requests.
+   * @param {string} token - The plain token presented by the user.
+   * @param {TUserTokenPurpose} purpose - What the token is being used for.
+   * @returns {Promise<UserToken | null>} - The consumed token, or null if it is unknown, expired, already used or meant for another purpose.
+   */
+  static async consume(token: string, purpose: TUserTokenPurpose): Promise<UserToken | null> {
+    const where = {
+      tokenHash: hashToken(token),
+      purpose,
+      usedAt: null,
+      expiresAt: { [Op.gt]: new Date() },
+    };
+    const record = await UserToken.findOne({ where });
+    if (!record) {
+      return null;
+    }
+
+    const [affected] = await UserToken.update(
+      { usedAt: new Date() },
+      { where: { ...where, id: record.id } }
+    );
+    return affected === 1 ? record : null;
+  }
+}
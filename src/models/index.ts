@@ -1,4 +1,14 @@
 export * from "./User";
 export * from "./Role";
 export * from "./Community";
-export * from "./Member";
\ No newline at end of file
+export * from "./CommunitySlug";
+export * from "./Member";
+export * from "./OwnershipTransfer";
+export * from "./JoinRequest";
+export * from "./Invite";
+export * from "./AuditLog";
+export * from "./UserSession";
+export * from "./RefreshToken";
+export * from "./RevokedToken";
+export * from "./UserToken";
+export * from "./SigninThrottle";
\ No newline at end of file
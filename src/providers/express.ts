@@ -1,7 +1,7 @@
 import { Application } from "express";
 import express from "express";
 import cors from "cors";
-import { globalErrorHandler } from "../middlewares";
+import { globalErrorHandler, requestId } from "../middlewares";
 import { initRoutes } from "./route";
 import cookieSession from "cookie-session";
 import { COOKIE_SECRET } from "../config";
@@ -10,14 +10,15 @@ import { NonParametricError } from "../errors";
 let app: Application = express();
 
 /**
- * Mounts middleware functions for handling CORS, parsing JSON and URL-encoded data,
- * and setting up cookie session.
+ * Mounts middleware functions for tagging requests with a correlation id, handling CORS,
+ * parsing JSON and URL-encoded data, and setting up cookie session.
  */
 const mountMdw = () => {
+  app.use(requestId);
   app.use(
     cors({
       origin: "*",
-      methods: ["GET", "HEAD", "OPTIONS", "POST", "PUT", "DELETE"],
+      methods: ["GET", "HEAD", "OPTIONS", "POST", "PUT", "PATCH", "DELETE"],
       allowedHeaders: [
         "Origin",
         "X-Requested-With",
@@ -28,7 +29,9 @@ const mountMdw = () => {
         "x-client-secret",
         "Authorization",
         "Accept",
+        "X-Request-Id",
       ],
+      exposedHeaders: ["X-Request-Id", "Retry-After"],
     })
   );
   app.use(express.json());
@@ -56,10 +59,10 @@ mountRoutes(); // Mounts application routes
 
 
 /**
- * Default route handler for handling routes that are not found.
+ * Default route handler for handling routes that are not found, whatever the method.
  * Throws a NonParametricError with message "Route not found" and code "RESOURCE_NOT_FOUND".
  */
-app.get("*", (req, res, next) => {
+app.all("*", (req, res, next) => {
   next(
     new NonParametricError([
       { message: "Route not found", code: "RESOURCE_NOT_FOUND" },
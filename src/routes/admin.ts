@@ -0,0 +1,17 @@
+import { Router } from "express";
+import { banUserVal, currentUser, isLoggedIn, isPlatformAdmin, listUsersVal, suspendUserVal, validateRequest } from "../middlewares";
+import { banUser, forceDeleteCommunity, listUsers, reinstateUser, signoutUserEverywhere, suspendUser, unlockUser } from "../controllers";
+
+const router = Router();
+
+router.use(currentUser, isLoggedIn, isPlatformAdmin);
+
+router.get("/users", listUsersVal, validateRequest, listUsers);
+router.post("/users/:id/unlock", unlockUser);
+router.post("/users/:id/suspend", suspendUserVal, validateRequest, suspendUser);
+router.post("/users/:id/ban", banUserVal, validateRequest, banUser);
+router.post("/users/:id/reinstate", reinstateUser);
+router.post("/users/:id/signout", signoutUserEverywhere);
+router.delete("/communities/:communityId", forceDeleteCommunity);
+
+export { router as adminRouter };
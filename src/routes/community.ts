@@ -1,14 +1,39 @@
 import { Router } from "express";
-import { createCommunityVal, currentUser, getAllMembersVal, isLoggedIn, validateRequest } from "../middlewares";
-import { createCommunity, getAllCommunities, getAllMembers, getMyJoinedCommunities, getMyOwnedCommunities } from "../controllers";
+import { createCommunityVal, createInviteVal, createRoleVal, createTransferVal, currentUser, getAllMembersVal, isCommunityOwner, listCommunitiesVal, paginationVal, isLoggedIn, optionalUser, requirePermission, requireVerifiedEmail, updateCommunityVal, updateRoleVal, validateRequest } from "../middlewares";
+import { approveJoinRequest, archiveCommunity, createCommunity, createCommunityRole, createInvite, createTransfer, deleteCommunity, deleteCommunityRole, getAllCommunities, getAllMembers, getCommunity, getCommunityRoles, getCommunityTransfers, getInvites, getJoinRequests, getMyJoinedCommunities, getMyOwnedCommunities, leaveCommunity, rejectJoinRequest, removeMember, requestToJoin, revokeInvite, unarchiveCommunity, updateCommunity, updateCommunityRole } from "../controllers";
 
 const router = Router();
 
-router.post("/", currentUser, isLoggedIn, createCommunityVal, validateRequest, createCommunity);
-router.get("/", getAllCommunities);
-router.get("/me/owner", currentUser, isLoggedIn, getMyOwnedCommunities);
-router.get("/:id/members", getAllMembersVal, validateRequest, getAllMembers)
+router.post("/", currentUser, isLoggedIn, requireVerifiedEmail, createCommunityVal, validateRequest, createCommunity);
+router.get("/", listCommunitiesVal, validateRequest, getAllCommunities);
+router.get("/me/owner", currentUser, isLoggedIn, paginationVal, validateRequest, getMyOwnedCommunities);
+router.get("/:id/members", optionalUser, getAllMembersVal, validateRequest, getAllMembers)
+router.delete("/:communityId/members/me", currentUser, isLoggedIn, leaveCommunity);
+router.delete("/:communityId/members/:userId", currentUser, isLoggedIn, requirePermission("member:remove"), removeMember);
 
-router.get("/me/member", currentUser, isLoggedIn, getMyJoinedCommunities)
+router.get("/me/member", currentUser, isLoggedIn, paginationVal, validateRequest, getMyJoinedCommunities)
+router.get("/:idOrSlug", optionalUser, getCommunity);
 
-export { router as communityRouter };
\ No newline at end of file
+router.patch("/:communityId", currentUser, isLoggedIn, requirePermission("community:edit"), updateCommunityVal, validateRequest, updateCommunity);
+router.post("/:communityId/archive", currentUser, isLoggedIn, requirePermission("community:delete"), archiveCommunity);
+router.post("/:communityId/unarchive", currentUser, isLoggedIn, requirePermission("community:delete"), unarchiveCommunity);
+router.delete("/:communityId", currentUser, isLoggedIn, requirePermission("community:delete"), deleteCommunity);
+
+router.get("/:communityId/roles", currentUser, isLoggedIn, requirePermission(), getCommunityRoles);
+router.post("/:communityId/roles", currentUser, isLoggedIn, requirePermission("role:manage"), createRoleVal, validateRequest, createCommunityRole);
+router.patch("/:communityId/roles/:roleId", currentUser, isLoggedIn, requirePermission("role:manage"), updateRoleVal, validateRequest, updateCommunityRole);
+router.delete("/:communityId/roles/:roleId", currentUser, isLoggedIn, requirePermission("role:manage"), deleteCommunityRole);
+
+router.get("/:communityId/transfers", currentUser, isLoggedIn, requirePermission("community:edit"), getCommunityTransfers);
+router.post("/:communityId/transfers", currentUser, isLoggedIn, isCommunityOwner, createTransferVal, validateRequest, createTransfer);
+
+router.post("/:communityId/join", currentUser, isLoggedIn, requireVerifiedEmail, requestToJoin);
+router.get("/:communityId/join-requests", currentUser, isLoggedIn, requirePermission("member:approve"), getJoinRequests);
+router.post("/:communityId/join-requests/:requestId/approve", currentUser, isLoggedIn, requirePermission("member:approve"), approveJoinRequest);
+router.post("/:communityId/join-requests/:requestId/reject", currentUser, isLoggedIn, requirePermission("member:approve"), rejectJoinRequest);
+
+router.get("/:communityId/invites", currentUser, isLoggedIn, requirePermission("invite:manage"), getInvites);
+router.post("/:communityId/invites", currentUser, isLoggedIn, requirePermission("invite:manage"), createInviteVal, validateRequest, createInvite);
+router.delete("/:communityId/invites/:inviteId", currentUser, isLoggedIn, requirePermission("invite:manage"), revokeInvite);
+
+export { router as communityRouter };
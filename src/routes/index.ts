@@ -1,14 +1,22 @@
 import { Router } from "express";
 import { roleRouter } from "./role";
 import { authRouter } from "./user";
+import { userRouter } from "./profile";
 import { communityRouter } from "./community";
 import { memberRouter } from "./member";
+import { transferRouter } from "./transfer";
+import { inviteRouter } from "./invite";
+import { adminRouter } from "./admin";
 
 const router = Router();
 
 router.use("/role", roleRouter);
 router.use("/auth", authRouter);
+router.use("/user", userRouter);
 router.use("/community", communityRouter);
 router.use("/member", memberRouter);
+router.use("/transfer", transferRouter);
+router.use("/invite", inviteRouter);
+router.use("/admin", adminRouter);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,9 @@
+import { Router } from "express";
+import { currentUser, isLoggedIn, requireVerifiedEmail } from "../middlewares";
+import { redeemInvite } from "../controllers";
+
+const router = Router();
+
+router.post("/:token", currentUser, isLoggedIn, requireVerifiedEmail, redeemInvite);
+
+export { router as inviteRouter };
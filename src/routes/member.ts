@@ -3,12 +3,12 @@ import {
   addMemberVal,
   currentUser,
   deleteMemberVal,
-  isCommunityAdmin,
-  isCommunityModerator,
   isLoggedIn,
+  requirePermission,
+  updateMemberRoleVal,
   validateRequest,
 } from "../middlewares";
-import { addMember, removeMember } from "../controllers";
+import { addMember, removeMember, updateMemberRole } from "../controllers";
 
 const router = Router();
 
@@ -18,16 +18,25 @@ router.post(
   validateRequest,
   currentUser,
   isLoggedIn,
-  isCommunityAdmin,
+  requirePermission("member:add"),
   addMember
 );
 router.delete(
-  "/:id",
+  "/:memberId",
   deleteMemberVal,
   validateRequest,
   currentUser,
   isLoggedIn,
-  isCommunityModerator,
+  requirePermission("member:remove"),
   removeMember
 );
+router.patch(
+  "/:memberId",
+  updateMemberRoleVal,
+  validateRequest,
+  currentUser,
+  isLoggedIn,
+  requirePermission("member:role"),
+  updateMemberRole
+);
 export { router as memberRouter };
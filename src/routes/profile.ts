@@ -0,0 +1,8 @@
+import { Router } from "express";
+import { getPublicProfile } from "../controllers";
+
+const router = Router();
+
+router.get("/:id", getPublicProfile);
+
+export { router as userRouter };
@@ -1,9 +1,9 @@
 import { Router } from "express";
-import { createRoleVal, validateRequest } from "../middlewares";
+import { createRoleVal, currentUser, isLoggedIn, isPlatformAdmin, paginationVal, validateRequest } from "../middlewares";
 import { createRole, getAllRole } from "../controllers";
 
 const router = Router();
 
-router.post("/", createRoleVal, validateRequest, createRole);
-router.get("/", getAllRole)
+router.post("/", currentUser, isLoggedIn, isPlatformAdmin, createRoleVal, validateRequest, createRole);
+router.get("/", paginationVal, validateRequest, getAllRole)
 export { router as roleRouter };
\ No newline at end of file
@@ -0,0 +1,12 @@
+import { Router } from "express";
+import { currentUser, isLoggedIn } from "../middlewares";
+import { acceptTransfer, cancelTransfer, declineTransfer, getMyTransfers } from "../controllers";
+
+const router = Router();
+
+router.get("/me", currentUser, isLoggedIn, getMyTransfers);
+router.post("/:id/accept", currentUser, isLoggedIn, acceptTransfer);
+router.post("/:id/decline", currentUser, isLoggedIn, declineTransfer);
+router.delete("/:id", currentUser, isLoggedIn, cancelTransfer);
+
+export { router as transferRouter };
@@ -1,12 +1,29 @@
 import { Router } from "express";
-import { currentUser, signinUserVal, signupUserVal, validateRequest } from "../middlewares";
-import { getMe, signinUser, signoutUser, signupUser } from "../controllers";
+import { changePasswordVal, currentUser, deleteMeVal, forgotPasswordVal, isLoggedIn, mfaCodeVal, optionalUser, resetPasswordVal, signinUserVal, signupUserVal, updateMeVal, validateRequest, verifyEmailVal, verifyMfaVal } from "../middlewares";
+import { changePassword, confirmMfa, deleteMe, disableMfa, enrollMfa, exportMe, forgotPassword, getMe, getSessions, regenerateRecoveryCodes, refreshSession, resendEmailVerification, resetPassword, revokeSession, signinUser, signoutEverywhere, signoutUser, signupUser, updateMe, verifyEmail, verifyMfa } from "../controllers";
 
 const router = Router();
 
 router.post("/signup", signupUserVal, validateRequest, signupUser);
-router.post("/signout", signoutUser);
+router.post("/signout", optionalUser, signoutUser);
+router.post("/signout/all", currentUser, isLoggedIn, signoutEverywhere);
+router.post("/refresh", refreshSession);
 router.post("/signin", signinUserVal, validateRequest, signinUser);
 router.get("/me", currentUser, getMe)
+router.patch("/me", currentUser, isLoggedIn, updateMeVal, validateRequest, updateMe);
+router.delete("/me", currentUser, isLoggedIn, deleteMeVal, validateRequest, deleteMe);
+router.get("/me/export", currentUser, isLoggedIn, exportMe);
+router.post("/password/change", currentUser, isLoggedIn, changePasswordVal, validateRequest, changePassword);
+router.post("/password/forgot", forgotPasswordVal, validateRequest, forgotPassword);
+router.post("/password/reset", resetPasswordVal, validateRequest, resetPassword);
+router.post("/verify-email", verifyEmailVal, validateRequest, verifyEmail);
+router.post("/verify-email/resend", currentUser, isLoggedIn, resendEmailVerification);
+router.post("/mfa/verify", verifyMfaVal, validateRequest, verifyMfa);
+router.post("/mfa/enroll", currentUser, isLoggedIn, enrollMfa);
+router.post("/mfa/confirm", currentUser, isLoggedIn, mfaCodeVal, validateRequest, confirmMfa);
+router.post("/mfa/recovery-codes", currentUser, isLoggedIn, mfaCodeVal, validateRequest, regenerateRecoveryCodes);
+router.post("/mfa/disable", currentUser, isLoggedIn, mfaCodeVal, validateRequest, disableMfa);
+router.get("/sessions", currentUser, isLoggedIn, getSessions);
+router.delete("/sessions/:id", currentUser, isLoggedIn, revokeSession);
 
 export { router as authRouter };
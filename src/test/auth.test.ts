@@ -3,8 +3,13 @@ import request from "supertest";
 import { beforeAll, describe, it } from "@jest/globals";
 import { initTestServer } from "./init-test-server";
 import { Application } from "express";
-import { INonParametricError, IParametricError } from "../interfaces";
+import { INonParametricError, IParametricError, Mail } from "../interfaces";
 import { Server } from "http";
+import { Member, Role, SigninThrottle } from "../models";
+import jwt from "jsonwebtoken";
+import { JWT_SECRET } from "../config";
+import { ConsoleTransport, setMailTransport } from "../mailer";
+import { generateTotp, loadPasswordDenylist } from "../utils";
 
 let app: Application;
 let server: Server;
@@ -30,7 +35,7 @@ describe("Authentication API Tests", () => {
       const userDetails = {
         name: "John Doe",
         email: "john.doe@example.com",
-        password: "password123",
+        password: "Sup3rSecret",
       };
 
       const response = await request(app)
@@ -56,7 +61,7 @@ describe("Authentication API Tests", () => {
       const response = await request(app)
         .post("/v1/auth/signup")
         .send(invalidUserDetails)
-        .expect(400);
+        .expect(422);
 
       assert.equal(response.body.status, false);
       assert(
@@ -71,13 +76,13 @@ describe("Authentication API Tests", () => {
       const invalidUserDetails = {
         name: "N", // Invalid name (less than 2 characters)
         email: "email@email.com", // Invalid email format
-        password: "1", // Invalid password (less than 6 characters)
+        password: "1", // Invalid password (less than 8 characters)
       };
 
       const response = await request(app)
         .post("/v1/auth/signup")
         .send(invalidUserDetails)
-        .expect(400);
+        .expect(422);
       assert.equal(response.body.status, false);
       assert(
         response.body.errors.some(
@@ -88,7 +93,7 @@ describe("Authentication API Tests", () => {
       assert(
         response.body.errors.some(
           (err: INonParametricError) =>
-            err.message === "Password should be at least 2 characters."
+            err.message === "Password should be at least 8 characters."
         )
       );
     });
@@ -97,13 +102,13 @@ describe("Authentication API Tests", () => {
       const userDetails = {
         name: "John Doe",
         email: "john.doe@example.com",
-        password: "password123",
+        password: "Sup3rSecret",
       };
 
       const response = await request(app)
         .post("/v1/auth/signup")
         .send(userDetails)
-        .expect(400);
+        .expect(409);
       assert.equal(response.body.status, false);
       assert(
         response.body.errors.some(
@@ -120,7 +125,7 @@ describe("Authentication API Tests", () => {
     it("should sign in an existing user with valid details", async () => {
       const userDetails = {
         email: "john.doe@example.com",
-        password: "password123",
+        password: "Sup3rSecret",
       };
 
       const response = await request(app)
@@ -138,13 +143,13 @@ describe("Authentication API Tests", () => {
     it("should fail to sign in with invalid details", async () => {
       const invalidUserDetails = {
         email: "john.doe",
-        password: "password123",
+        password: "Sup3rSecret",
       };
 
       const response = await request(app)
         .post("/v1/auth/signin")
         .send(invalidUserDetails)
-        .expect(400);
+        .expect(422);
 
       assert.equal(response.body.status, false);
       assert(
@@ -166,7 +171,7 @@ describe("Authentication API Tests", () => {
       const response = await request(app)
         .post("/v1/auth/signin")
         .send(invalidUserDetails)
-        .expect(400);
+        .expect(401);
 
       assert.equal(response.body.status, false);
       assert(
@@ -180,9 +185,148 @@ describe("Authentication API Tests", () => {
     });
   });
 
+  describe("POST /v1/auth/signin with an unreadable body", () => {
+    it("should keep the status of a body that is too large", async () => {
+      const response = await request(app)
+        .post("/v1/auth/signin")
+        .set("Content-Type", "application/json")
+        .send(JSON.stringify({ email: "john.doe@example.com", password: "x".repeat(200 * 1024) }))
+        .expect(413);
+      assert.equal(response.body.errors[0].code, "BAD_REQUEST");
+    });
+
+    it("should reject a body that is not valid JSON as invalid input", async () => {
+      const response = await request(app)
+        .post("/v1/auth/signin")
+        .set("Content-Type", "application/json")
+        .send("{ not json")
+        .expect(422);
+      assert.equal(response.body.errors[0].code, "INVALID_INPUT");
+    });
+  });
+
+  describe("POST /v1/auth/signin with an unknown email", () => {
+    it("should respond as for a wrong password", async () => {
+      const response = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "nobody@example.com", password: "Sup3rSecret" })
+        .expect(401);
+
+      assert(
+        response.body.errors.some(
+          (err: IParametricError) =>
+            err.param === "password" &&
+            err.message === "The credentials you provided are invalid." &&
+            err.code === "INVALID_CREDENTIALS"
+        )
+      );
+    });
+  });
+
+  describe("POST /v1/auth/refresh", () => {
+    it("should rotate the refresh token and reject its reuse", async () => {
+      const signin = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "john.doe@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const refreshToken = signin.body.content.meta.refresh_token;
+      assert(refreshToken);
+
+      const response = await request(app)
+        .post("/v1/auth/refresh")
+        .send({ refresh_token: refreshToken })
+        .expect(200);
+
+      assert.equal(response.body.status, true);
+      assert(response.body.content.meta.access_token);
+      assert(response.body.content.meta.refresh_token);
+      assert.notEqual(response.body.content.meta.refresh_token, refreshToken);
+
+      const reuse = await request(app)
+        .post("/v1/auth/refresh")
+        .send({ refresh_token: refreshToken })
+        .expect(401);
+
+      assert.equal(reuse.body.status, false);
+      assert(
+        reuse.body.errors.some(
+          (err: INonParametricError) => err.code === "NOT_SIGNEDIN"
+        )
+      );
+    });
+
+    it("should rotate a refresh token only once when it is used concurrently", async () => {
+      const signin = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "john.doe@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const refreshToken = signin.body.content.meta.refresh_token;
+
+      const responses = await Promise.all(
+        [1, 2, 3].map(() =>
+          request(app).post("/v1/auth/refresh").send({ refresh_token: refreshToken })
+        )
+      );
+      assert.deepStrictEqual(
+        responses.map((response) => response.status).sort(),
+        [200, 401, 401]
+      );
+    });
+  });
+
+  describe("POST /v1/auth/signout", () => {
+    it("should sign out with an expired access token", async () => {
+      const signin = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "john.doe@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const { access_token, refresh_token } = signin.body.content.meta;
+      const { id, sid } = jwt.decode(access_token) as { id: string; sid: string };
+      const expired = jwt.sign({ id, sid }, JWT_SECRET, { expiresIn: -10 });
+
+      await request(app)
+        .post("/v1/auth/signout")
+        .set("Authorization", `Bearer ${expired}`)
+        .expect(200);
+
+      await request(app)
+        .post("/v1/auth/refresh")
+        .send({ refresh_token })
+        .expect(401);
+    });
+
+    it("should sign out with the refresh token when the access token is invalid", async () => {
+      const signin = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "john.doe@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const { access_token, refresh_token } = signin.body.content.meta;
+
+      await request(app)
+        .post("/v1/auth/signout")
+        .set("Authorization", "Bearer not-a-jwt")
+        .send({ refresh_token })
+        .expect(200);
+
+      await request(app)
+        .get("/v1/auth/me")
+        .set("Authorization", `Bearer ${access_token}`)
+        .expect(401);
+    });
+
+    it("should require a session to sign out of", async () => {
+      const response = await request(app).post("/v1/auth/signout").expect(401);
+      assert(
+        response.body.errors.some(
+          (err: INonParametricError) => err.code === "NOT_SIGNEDIN"
+        )
+      );
+    });
+  });
+
   describe("GET /v1/auth/me", () => {
     it("should return not signed error in case the user is not signed in", async () => {
-      const response = await request(app).get("/v1/auth/me").expect(400);
+      const response = await request(app).get("/v1/auth/me").expect(401);
 
       assert.equal(response.body.status, false);
       assert(
@@ -193,5 +337,468 @@ describe("Authentication API Tests", () => {
         )
       );
     });
+
+    it("should translate the error into the language the client accepts", async () => {
+      const response = await request(app)
+        .get("/v1/auth/me")
+        .set("Accept-Language", "fr;q=0.9, de-DE;q=0.8, en;q=0.5")
+        .expect(401);
+
+      assert.equal(response.headers["content-language"], "de");
+      assert(
+        response.body.errors.some(
+          (err: INonParametricError) =>
+            err.message === "Sie müssen sich anmelden, um fortzufahren." &&
+            err.code === "NOT_SIGNEDIN"
+        )
+      );
+    });
+
+    it("should return the signed in user when given a bearer token", async () => {
+      const signin = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "john.doe@example.com", password: "Sup3rSecret" })
+        .expect(200);
+
+      const response = await request(app)
+        .get("/v1/auth/me")
+        .set("Authorization", `Bearer ${signin.body.content.meta.access_token}`)
+        .expect(200);
+
+      assert.equal(response.body.status, true);
+      assert.equal(response.body.content.data.email, "john.doe@example.com");
+    });
+
+    it("should reject a malformed bearer token", async () => {
+      const response = await request(app)
+        .get("/v1/auth/me")
+        .set("Authorization", "Bearer not-a-jwt")
+        .expect(401);
+
+      assert.equal(response.body.status, false);
+      assert(
+        response.body.errors.some(
+          (err: INonParametricError) => err.code === "INVALID_TOKEN"
+        )
+      );
+    });
+  });
+
+  describe("DELETE /v1/auth/sessions/:id", () => {
+    it("should list the session and reject its token once revoked", async () => {
+      const signin = await request(app)
+        .post("/v1/auth/signin")
+        .set("User-Agent", "session-test")
+        .send({ email: "john.doe@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const auth = `Bearer ${signin.body.content.meta.access_token}`;
+
+      const list = await request(app)
+        .get("/v1/auth/sessions")
+        .set("Authorization", auth)
+        .expect(200);
+      const current = list.body.content.data.find(
+        (session: { current: boolean }) => session.current
+      );
+      assert.equal(current.user_agent, "session-test");
+
+      await request(app)
+        .delete(`/v1/auth/sessions/${current.id}`)
+        .set("Authorization", auth)
+        .expect(200);
+
+      const response = await request(app)
+        .get("/v1/auth/me")
+        .set("Authorization", auth)
+        .expect(401);
+      assert(
+        response.body.errors.some(
+          (err: INonParametricError) => err.code === "INVALID_TOKEN"
+        )
+      );
+    });
+  });
+
+  describe("POST /v1/auth/password/change", () => {
+    it("should change the password and reject a wrong current password", async () => {
+      const signup = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Jane Doe", email: "jane.doe@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const auth = `Bearer ${signup.body.content.meta.access_token}`;
+
+      const wrong = await request(app)
+        .post("/v1/auth/password/change")
+        .set("Authorization", auth)
+        .send({ current_password: "wrong-password", new_password: "N3wSecret45" })
+        .expect(401);
+      assert(
+        wrong.body.errors.some(
+          (err: IParametricError) =>
+            err.param === "current_password" && err.code === "INVALID_CREDENTIALS"
+        )
+      );
+
+      await request(app)
+        .post("/v1/auth/password/change")
+        .set("Authorization", auth)
+        .send({ current_password: "Sup3rSecret", new_password: "N3wSecret45" })
+        .expect(200);
+
+      await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "jane.doe@example.com", password: "N3wSecret45" })
+        .expect(200);
+    });
+  });
+
+  describe("POST /v1/auth/mfa/enroll", () => {
+    it("should return a TOTP secret without enabling two-factor authentication yet", async () => {
+      const signin = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "john.doe@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const auth = `Bearer ${signin.body.content.meta.access_token}`;
+
+      const response = await request(app)
+        .post("/v1/auth/mfa/enroll")
+        .set("Authorization", auth)
+        .expect(200);
+      assert.match(response.body.content.data.secret, /^[A-Z2-7]+$/);
+      assert(response.body.content.data.otpauth_uri.startsWith("otpauth://totp/"));
+
+      const me = await request(app)
+        .get("/v1/auth/me")
+        .set("Authorization", auth)
+        .expect(200);
+      assert.equal(me.body.content.data.mfa_enabled, false);
+    });
+  });
+
+  describe("Two-factor code checks", () => {
+    const email = "mfa.owner@example.com";
+    let recoveryCodes: string[] = [];
+    const signin = async (): Promise<string> => {
+      const response = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email, password: "Sup3rSecret" })
+        .expect(200);
+      if (response.body.content.meta.mfa_token) {
+        const verified = await request(app)
+          .post("/v1/auth/mfa/verify")
+          .send({ mfa_token: response.body.content.meta.mfa_token, code: recoveryCodes.pop() })
+          .expect(200);
+        return `Bearer ${verified.body.content.meta.access_token}`;
+      }
+      return `Bearer ${response.body.content.meta.access_token}`;
+    };
+
+    beforeAll(async () => {
+      await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "MFA Owner", email, password: "Sup3rSecret" })
+        .expect(200);
+    });
+
+    it("should lock out confirming after too many wrong codes", async () => {
+      const auth = await signin();
+      await request(app).post("/v1/auth/mfa/enroll").set("Authorization", auth).expect(200);
+
+      for (let attempt = 0; attempt < 10; attempt++) {
+        await request(app)
+          .post("/v1/auth/mfa/confirm")
+          .set("Authorization", auth)
+          .send({ code: "000000" })
+          .expect(401);
+      }
+      const response = await request(app)
+        .post("/v1/auth/mfa/confirm")
+        .set("Authorization", auth)
+        .send({ code: "000000" })
+        .expect(429);
+      assert(response.headers["retry-after"]);
+
+      await SigninThrottle.clear(SigninThrottle.accountKey(email));
+    });
+
+    it("should sign out the other sessions when two-factor authentication is turned on or off", async () => {
+      const auth = await signin();
+      const other = await signin();
+      const enroll = await request(app)
+        .post("/v1/auth/mfa/enroll")
+        .set("Authorization", auth)
+        .expect(200);
+
+      const confirm = await request(app)
+        .post("/v1/auth/mfa/confirm")
+        .set("Authorization", auth)
+        .send({ code: generateTotp(enroll.body.content.data.secret) })
+        .expect(200);
+      recoveryCodes = confirm.body.content.data.recovery_codes;
+      await request(app).get("/v1/auth/me").set("Authorization", other).expect(401);
+      await request(app).get("/v1/auth/me").set("Authorization", auth).expect(200);
+
+      const another = await signin();
+      await request(app)
+        .post("/v1/auth/mfa/disable")
+        .set("Authorization", auth)
+        .send({ code: recoveryCodes.pop() })
+        .expect(200);
+      await request(app).get("/v1/auth/me").set("Authorization", another).expect(401);
+      await request(app).get("/v1/auth/me").set("Authorization", auth).expect(200);
+    });
+  });
+
+  describe("PATCH /v1/auth/me", () => {
+    it("should update the profile and only expose public fields", async () => {
+      const signin = await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "jane.doe@example.com", password: "N3wSecret45" })
+        .expect(200);
+      const auth = `Bearer ${signin.body.content.meta.access_token}`;
+
+      const updated = await request(app)
+        .patch("/v1/auth/me")
+        .set("Authorization", auth)
+        .send({ bio: "Hello!", timezone: "Europe/Berlin", public_fields: ["name", "bio"] })
+        .expect(200);
+      assert.equal(updated.body.content.data.timezone, "Europe/Berlin");
+
+      const profile = await request(app)
+        .get(`/v1/user/${updated.body.content.data.id}`)
+        .expect(200);
+      assert.deepEqual(Object.keys(profile.body.content.data), ["id", "name", "bio"]);
+      assert.equal(profile.body.content.data.bio, "Hello!");
+    });
+  });
+
+  describe("POST /v1/auth/verify-email", () => {
+    it("should verify the address with the mailed token, once", async () => {
+      const mails: Mail[] = [];
+      setMailTransport({ send: async (mail) => { mails.push(mail); } });
+      const tokenMailedTo = (email: string) =>
+        mails.filter((sent) => sent.to === email).pop()!.text.match(/verify your email address: (\S+)/)![1];
+
+      const signup = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Verify Me", email: "verify.me@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const auth = `Bearer ${signup.body.content.meta.access_token}`;
+      const firstToken = tokenMailedTo("verify.me@example.com");
+
+      await request(app)
+        .post("/v1/auth/verify-email/resend")
+        .set("Authorization", auth)
+        .expect(200);
+      setMailTransport(new ConsoleTransport());
+      const secondToken = tokenMailedTo("verify.me@example.com");
+      assert.notEqual(secondToken, firstToken);
+
+      const stale = await request(app)
+        .post("/v1/auth/verify-email")
+        .send({ token: firstToken })
+        .expect(422);
+      assert.equal(stale.body.errors[0].param, "token");
+
+      await request(app)
+        .post("/v1/auth/verify-email")
+        .send({ token: secondToken })
+        .expect(200);
+      await request(app)
+        .post("/v1/auth/verify-email")
+        .send({ token: secondToken })
+        .expect(422);
+
+      const me = await request(app)
+        .get("/v1/auth/me")
+        .set("Authorization", auth)
+        .expect(200);
+      assert.equal(me.body.content.data.email_verified, true);
+
+      await request(app)
+        .post("/v1/auth/verify-email/resend")
+        .set("Authorization", auth)
+        .expect(409);
+    });
+  });
+
+  describe("PATCH /v1/auth/me with a new email address", () => {
+    it("should keep the current address until the new one is verified", async () => {
+      const mails: Mail[] = [];
+      setMailTransport({ send: async (mail) => { mails.push(mail); } });
+
+      const signup = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Change Me", email: "change.me@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const auth = `Bearer ${signup.body.content.meta.access_token}`;
+
+      const updated = await request(app)
+        .patch("/v1/auth/me")
+        .set("Authorization", auth)
+        .send({ email: "changed@example.com" })
+        .expect(200);
+      setMailTransport(new ConsoleTransport());
+      assert.equal(updated.body.content.data.email, "change.me@example.com");
+      assert.equal(updated.body.content.data.pending_email, "changed@example.com");
+
+      const mail = mails.find((sent) => sent.to === "changed@example.com");
+      const token = mail!.text.match(/verify your email address: (\S+)/)![1];
+      await request(app)
+        .post("/v1/auth/verify-email")
+        .send({ token })
+        .expect(200);
+
+      const me = await request(app)
+        .get("/v1/auth/me")
+        .set("Authorization", auth)
+        .expect(200);
+      assert.equal(me.body.content.data.email, "changed@example.com");
+      assert.equal(me.body.content.data.pending_email, null);
+      assert.equal(me.body.content.data.email_verified, true);
+    });
+  });
+
+  describe("DELETE /v1/auth/me", () => {
+    it("should export the account and then delete it", async () => {
+      const signup = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Delete Me", email: "delete.me@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const auth = `Bearer ${signup.body.content.meta.access_token}`;
+
+      const exported = await request(app)
+        .get("/v1/auth/me/export")
+        .set("Authorization", auth)
+        .expect(200);
+      assert.equal(exported.body.content.data.profile.email, "delete.me@example.com");
+
+      await request(app)
+        .delete("/v1/auth/me")
+        .set("Authorization", auth)
+        .send({ password: "Sup3rSecret" })
+        .expect(200);
+
+      await request(app)
+        .post("/v1/auth/signin")
+        .send({ email: "delete.me@example.com", password: "Sup3rSecret" })
+        .expect(401);
+    });
+
+    it("should not delete the account of a community owner or last admin", async () => {
+      const owner = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Keeping Owner", email: "keeping.owner@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const admin = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Keeping Admin", email: "keeping.admin@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const ownerAuth = `Bearer ${owner.body.content.meta.access_token}`;
+      const community = await request(app)
+        .post("/v1/community")
+        .set("Authorization", ownerAuth)
+        .send({ name: "Kept Community" })
+        .expect(200);
+      const adminRole = await Role.findOne({ where: { name: "Community Admin", communityId: null } });
+      await request(app)
+        .post("/v1/member")
+        .set("Authorization", ownerAuth)
+        .send({ community: community.body.content.data.id, user: admin.body.content.data.id, role: adminRole!.id })
+        .expect(200);
+
+      const byOwner = await request(app)
+        .delete("/v1/auth/me")
+        .set("Authorization", ownerAuth)
+        .send({ password: "Sup3rSecret" })
+        .expect(403);
+      assert.equal(
+        byOwner.body.errors[0].message,
+        "Transfer or delete the communities you own before deleting your account."
+      );
+
+      // Leaves the admin as the only admin-level member of the community
+      const memberRole = await Role.findOne({ where: { name: "Community Member", communityId: null } });
+      await Member.update({ roleId: memberRole!.id }, { where: { userId: owner.body.content.data.id } });
+      const byAdmin = await request(app)
+        .delete("/v1/auth/me")
+        .set("Authorization", `Bearer ${admin.body.content.meta.access_token}`)
+        .send({ password: "Sup3rSecret" })
+        .expect(403);
+      assert.equal(
+        byAdmin.body.errors[0].message,
+        "Appoint another admin where you are the last one before deleting your account."
+      );
+    });
+
+    it("should require a two-factor code when two-factor authentication is enabled", async () => {
+      const signup = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Delete MFA", email: "delete.mfa@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      const auth = `Bearer ${signup.body.content.meta.access_token}`;
+      const enroll = await request(app)
+        .post("/v1/auth/mfa/enroll")
+        .set("Authorization", auth)
+        .expect(200);
+      const confirm = await request(app)
+        .post("/v1/auth/mfa/confirm")
+        .set("Authorization", auth)
+        .send({ code: generateTotp(enroll.body.content.data.secret) })
+        .expect(200);
+
+      const missing = await request(app)
+        .delete("/v1/auth/me")
+        .set("Authorization", auth)
+        .send({ password: "Sup3rSecret" })
+        .expect(422);
+      assert.equal(missing.body.errors[0].param, "code");
+      await request(app)
+        .delete("/v1/auth/me")
+        .set("Authorization", auth)
+        .send({ password: "Sup3rSecret", code: "000000" })
+        .expect(401);
+      await request(app)
+        .delete("/v1/auth/me")
+        .set("Authorization", auth)
+        .send({ password: "Sup3rSecret", code: confirm.body.content.data.recovery_codes[0] })
+        .expect(200);
+    });
+  });
+
+  describe("loadPasswordDenylist", () => {
+    it("should refuse to load a missing denylist and keep the one already loaded", async () => {
+      assert.throws(() => loadPasswordDenylist("/nonexistent/common-passwords.txt"), /password denylist/);
+
+      const response = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Common Password", email: "common.password@example.com", password: "Password123" })
+        .expect(422);
+      assert.strictEqual(
+        response.body.errors[0].message,
+        "This password is too common, please choose another one."
+      );
+    });
+  });
+
+  describe("SigninThrottle", () => {
+    it("should count concurrent failures and unlock the addresses that failed on an account", async () => {
+      const accountKey = SigninThrottle.accountKey("throttled@example.com");
+      const ipKey = SigninThrottle.ipKey("203.0.113.7");
+
+      await Promise.all(
+        Array.from({ length: 5 }, () =>
+          SigninThrottle.recordFailure(accountKey, 100, "203.0.113.7")
+        )
+      );
+      await SigninThrottle.recordFailure(ipKey, 1);
+
+      const { failures } = await SigninThrottle.assess([accountKey]);
+      assert.strictEqual(failures, 5);
+      assert((await SigninThrottle.assess([ipKey])).lockedUntil);
+
+      await SigninThrottle.unlockAccount("throttled@example.com");
+      assert.strictEqual(await SigninThrottle.count({ where: { key: [accountKey, ipKey] } }), 0);
+    });
   });
 });
@@ -0,0 +1,640 @@
+import assert from "assert";
+import request from "supertest";
+import { beforeAll, describe, it } from "@jest/globals";
+import { initTestServer } from "./init-test-server";
+import { Application } from "express";
+import { Server } from "http";
+import { Community } from "../models";
+
+let app: Application;
+let server: Server;
+
+interface TestUser {
+  id: string;
+  auth: string;
+}
+
+let owner: TestUser;
+let applicant: TestUser;
+let outsider: TestUser;
+
+const signup = async (name: string, email: string): Promise<TestUser> => {
+  const response = await request(app)
+    .post("/v1/auth/signup")
+    .send({ name, email, password: "Sup3rSecret" })
+    .expect(200);
+  return {
+    id: response.body.content.data.id,
+    auth: `Bearer ${response.body.content.meta.access_token}`,
+  };
+};
+
+const createCommunity = async (by: TestUser, body: object) => {
+  const response = await request(app)
+    .post("/v1/community")
+    .set("Authorization", by.auth)
+    .send(body)
+    .expect(200);
+  return response.body.content.data;
+};
+
+const addMember = async (by: TestUser, communityId: string, user: TestUser) => {
+  const roles = await request(app)
+    .get(`/v1/community/${communityId}/roles`)
+    .set("Authorization", by.auth)
+    .expect(200);
+  const role = roles.body.content.data.find(
+    (item: { name: string }) => item.name === "Community Member"
+  );
+  await request(app)
+    .post("/v1/member")
+    .set("Authorization", by.auth)
+    .send({ community: communityId, user: user.id, role: role.id })
+    .expect(200);
+};
+
+const isListed = async (community: { id: string }): Promise<boolean> => {
+  const response = await request(app)
+    .get(`/v1/community?owner=${owner.id}&limit=100`)
+    .expect(200);
+  return response.body.content.data.some((item: { id: string }) => item.id === community.id);
+};
+
+beforeAll(async () => {
+  try {
+    const { app: application, server: serv } = await initTestServer();
+    app = application;
+    server = serv;
+
+    owner = await signup("Community Owner", "community.owner@example.com");
+    applicant = await signup("Community Applicant", "community.applicant@example.com");
+    outsider = await signup("Community Outsider", "community.outsider@example.com");
+  } catch (error) {
+    console.error("Failed to initialize test server:", error);
+    throw error;
+  }
+});
+
+afterAll(async () => {
+  server.close();
+});
+
+describe("Community API Tests", () => {
+  describe("GET /v1/community/:idOrSlug", () => {
+    it("should treat an invalid or expired token as an anonymous visitor", async () => {
+      const community = await createCommunity(owner, { name: "Open Doors" });
+
+      const response = await request(app)
+        .get(`/v1/community/${community.id}`)
+        .set("Authorization", "Bearer not-a-jwt")
+        .expect(200);
+      assert.strictEqual(response.body.content.data.id, community.id);
+
+      await request(app)
+        .get(`/v1/community/${community.id}/members`)
+        .set("Authorization", "Bearer not-a-jwt")
+        .expect(200);
+    });
+  });
+
+  describe("Community slugs", () => {
+    it("should not give a community a slug of digits only", async () => {
+      const community = await createCommunity(owner, { name: "2024" });
+      assert.strictEqual(community.slug, "community-2024");
+
+      const response = await request(app)
+        .patch(`/v1/community/${community.id}`)
+        .set("Authorization", owner.auth)
+        .send({ slug: "12345" })
+        .expect(422);
+      assert.strictEqual(response.body.errors[0].param, "slug");
+    });
+
+    it("should find a community by its ID or its slug", async () => {
+      const community = await createCommunity(owner, { name: "Slug Lookup" });
+
+      const byId = await request(app).get(`/v1/community/${community.id}`).expect(200);
+      const bySlug = await request(app).get(`/v1/community/${community.slug}`).expect(200);
+      assert.strictEqual(byId.body.content.data.id, community.id);
+      assert.strictEqual(bySlug.body.content.data.id, community.id);
+    });
+
+    it("should give communities created at the same time distinct slugs", async () => {
+      const [first, second] = await Promise.all([
+        createCommunity(owner, { name: "Twin Peaks" }),
+        createCommunity(owner, { name: "Twin Peaks" }),
+      ]);
+      assert.notStrictEqual(first.slug, second.slug);
+    });
+
+    it("should reject a slug taken by another community at the same time or too long", async () => {
+      const first = await createCommunity(owner, { name: "Race One" });
+      const second = await createCommunity(owner, { name: "Race Two" });
+      const responses = await Promise.all(
+        [first, second].map((community) =>
+          request(app)
+            .patch(`/v1/community/${community.id}`)
+            .set("Authorization", owner.auth)
+            .send({ slug: "finish-line" })
+        )
+      );
+      const rejected = responses.filter((response) => response.status !== 200);
+      assert.strictEqual(rejected.length, 1);
+      assert.strictEqual(rejected[0].body.errors[0].code, "RESOURCE_EXISTS");
+
+      const response = await request(app)
+        .patch(`/v1/community/${first.id}`)
+        .set("Authorization", owner.auth)
+        .send({ slug: "a".repeat(256) })
+        .expect(422);
+      assert.strictEqual(response.body.errors[0].param, "slug");
+    });
+
+    it("should redirect a former slug to the current one", async () => {
+      const community = await createCommunity(owner, { name: "Moving Out" });
+
+      await request(app)
+        .patch(`/v1/community/${community.id}`)
+        .set("Authorization", owner.auth)
+        .send({ slug: "moved-out" })
+        .expect(200);
+
+      const response = await request(app).get(`/v1/community/${community.slug}`).expect(301);
+      assert(response.headers.location.endsWith("/v1/community/moved-out"));
+    });
+  });
+
+  describe("PATCH /v1/community/:communityId", () => {
+    it("should reject a require_mfa value that is not a boolean", async () => {
+      const community = await createCommunity(owner, { name: "MFA Settings" });
+
+      const response = await request(app)
+        .patch(`/v1/community/${community.id}`)
+        .set("Authorization", owner.auth)
+        .send({ require_mfa: "yes" })
+        .expect(422);
+      assert.strictEqual(response.body.errors[0].param, "require_mfa");
+    });
+
+    it("should not let the owner require two-factor authentication without enabling it", async () => {
+      const community = await createCommunity(owner, { name: "MFA Owner" });
+
+      const response = await request(app)
+        .patch(`/v1/community/${community.id}`)
+        .set("Authorization", owner.auth)
+        .send({ require_mfa: true })
+        .expect(403);
+      assert.strictEqual(response.body.errors[0].code, "MFA_REQUIRED");
+    });
+  });
+
+  describe("Updating, archiving and deleting a community", () => {
+    it("should rename a community without changing its slug", async () => {
+      const community = await createCommunity(owner, { name: "Old Name" });
+
+      const response = await request(app)
+        .patch(`/v1/community/${community.id}`)
+        .set("Authorization", owner.auth)
+        .send({ name: "New Name" })
+        .expect(200);
+      assert.strictEqual(response.body.content.data.name, "New Name");
+      assert.strictEqual(response.body.content.data.slug, community.slug);
+    });
+
+    it("should not give a community a slug taken by another one", async () => {
+      const community = await createCommunity(owner, { name: "Moving House" });
+      const other = await createCommunity(owner, { name: "Squatter" });
+
+      const taken = await request(app)
+        .patch(`/v1/community/${other.id}`)
+        .set("Authorization", owner.auth)
+        .send({ slug: community.slug })
+        .expect(409);
+      assert.strictEqual(taken.body.errors[0].param, "slug");
+    });
+
+    it("should not let a user without permission update a community", async () => {
+      const community = await createCommunity(owner, { name: "Not Yours" });
+
+      const response = await request(app)
+        .patch(`/v1/community/${community.id}`)
+        .set("Authorization", outsider.auth)
+        .send({ name: "Mine Now" })
+        .expect(403);
+      assert.strictEqual(response.body.errors[0].code, "NOT_ALLOWED_ACCESS");
+    });
+
+    it("should unlist an archived community until it is restored", async () => {
+      const community = await createCommunity(owner, { name: "Seasonal" });
+
+      const archived = await request(app)
+        .post(`/v1/community/${community.id}/archive`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      assert(archived.body.content.data.archived_at);
+      assert.strictEqual(await isListed(community), false);
+
+      const restored = await request(app)
+        .post(`/v1/community/${community.id}/unarchive`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      assert.strictEqual(restored.body.content.data.archived_at, null);
+      assert.strictEqual(await isListed(community), true);
+    });
+
+    it("should only let a user with permission delete a community", async () => {
+      const community = await createCommunity(owner, { name: "Short Lived" });
+
+      await request(app)
+        .delete(`/v1/community/${community.id}`)
+        .set("Authorization", outsider.auth)
+        .expect(403);
+
+      await request(app)
+        .delete(`/v1/community/${community.id}`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      assert.strictEqual(await Community.findByPk(community.id), null);
+    });
+  });
+
+  describe("Ownership transfers", () => {
+    it("should hand the community over once the recipient accepts", async () => {
+      const community = await createCommunity(owner, { name: "Heirloom" });
+      await addMember(owner, community.id, applicant);
+
+      const notMember = await request(app)
+        .post(`/v1/community/${community.id}/transfers`)
+        .set("Authorization", owner.auth)
+        .send({ user: outsider.id })
+        .expect(422);
+      assert.strictEqual(notMember.body.errors[0].param, "user");
+
+      await request(app)
+        .post(`/v1/community/${community.id}/transfers`)
+        .set("Authorization", applicant.auth)
+        .send({ user: owner.id })
+        .expect(403);
+
+      const created = await request(app)
+        .post(`/v1/community/${community.id}/transfers`)
+        .set("Authorization", owner.auth)
+        .send({ user: applicant.id })
+        .expect(200);
+      assert.strictEqual(created.body.content.data.status, "pending");
+      const transferId = created.body.content.data.id;
+
+      const again = await request(app)
+        .post(`/v1/community/${community.id}/transfers`)
+        .set("Authorization", owner.auth)
+        .send({ user: applicant.id })
+        .expect(409);
+      assert.strictEqual(again.body.errors[0].code, "RESOURCE_EXISTS");
+
+      await request(app)
+        .post(`/v1/transfer/${transferId}/accept`)
+        .set("Authorization", outsider.auth)
+        .expect(404);
+
+      const accepted = await request(app)
+        .post(`/v1/transfer/${transferId}/accept`)
+        .set("Authorization", applicant.auth)
+        .expect(200);
+      assert.strictEqual(accepted.body.content.data.owner, applicant.id);
+
+      await request(app)
+        .post(`/v1/community/${community.id}/transfers`)
+        .set("Authorization", owner.auth)
+        .send({ user: applicant.id })
+        .expect(403);
+    });
+
+    it("should let the recipient decline and the sender cancel a transfer", async () => {
+      const community = await createCommunity(owner, { name: "Not For Sale" });
+      await addMember(owner, community.id, applicant);
+
+      const declined = await request(app)
+        .post(`/v1/community/${community.id}/transfers`)
+        .set("Authorization", owner.auth)
+        .send({ user: applicant.id })
+        .expect(200);
+      await request(app)
+        .post(`/v1/transfer/${declined.body.content.data.id}/decline`)
+        .set("Authorization", applicant.auth)
+        .expect(200);
+
+      const cancelled = await request(app)
+        .post(`/v1/community/${community.id}/transfers`)
+        .set("Authorization", owner.auth)
+        .send({ user: applicant.id })
+        .expect(200);
+      await request(app)
+        .delete(`/v1/transfer/${cancelled.body.content.data.id}`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      const expired = await request(app)
+        .post(`/v1/transfer/${cancelled.body.content.data.id}/accept`)
+        .set("Authorization", applicant.auth)
+        .expect(404);
+      assert.strictEqual(expired.body.errors[0].code, "RESOURCE_NOT_FOUND");
+
+      const fetched = await Community.findByPk(community.id);
+      assert.strictEqual(fetched!.ownerId, owner.id);
+    });
+  });
+
+  describe("Join requests", () => {
+    it("should let a moderator review requests to join a private community", async () => {
+      const community = await createCommunity(owner, { name: "Members Only", visibility: "private" });
+
+      const created = await request(app)
+        .post(`/v1/community/${community.id}/join`)
+        .set("Authorization", applicant.auth)
+        .expect(200);
+      assert.strictEqual(created.body.content.data.status, "pending");
+      const duplicate = await request(app)
+        .post(`/v1/community/${community.id}/join`)
+        .set("Authorization", applicant.auth)
+        .expect(409);
+      assert.strictEqual(duplicate.body.errors[0].code, "RESOURCE_EXISTS");
+
+      await request(app)
+        .get(`/v1/community/${community.id}/join-requests`)
+        .set("Authorization", outsider.auth)
+        .expect(403);
+      const pending = await request(app)
+        .get(`/v1/community/${community.id}/join-requests`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      assert.deepStrictEqual(
+        pending.body.content.data.map((item: { id: string }) => item.id),
+        [created.body.content.data.id]
+      );
+
+      const approved = await request(app)
+        .post(`/v1/community/${community.id}/join-requests/${created.body.content.data.id}/approve`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      assert.strictEqual(approved.body.content.data.status, "approved");
+
+      const again = await request(app)
+        .post(`/v1/community/${community.id}/join`)
+        .set("Authorization", applicant.auth)
+        .expect(409);
+      assert.strictEqual(again.body.errors[0].message, "User is already added in the community.");
+    });
+
+    it("should let a user join a public community straight away", async () => {
+      const community = await createCommunity(owner, { name: "Open House" });
+
+      const response = await request(app)
+        .post(`/v1/community/${community.id}/join`)
+        .set("Authorization", applicant.auth)
+        .expect(200);
+      assert.strictEqual(response.body.content.data.status, "approved");
+    });
+
+    it("should not take or approve join requests once the community is archived", async () => {
+      const community = await createCommunity(owner, { name: "Closing Down", visibility: "private" });
+      const joinRequest = await request(app)
+        .post(`/v1/community/${community.id}/join`)
+        .set("Authorization", applicant.auth)
+        .expect(200);
+      const requestId = joinRequest.body.content.data.id;
+
+      await request(app)
+        .post(`/v1/community/${community.id}/archive`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+
+      const join = await request(app)
+        .post(`/v1/community/${community.id}/join`)
+        .set("Authorization", outsider.auth)
+        .expect(403);
+      assert.strictEqual(join.body.errors[0].message, "Community is archived.");
+
+      const approve = await request(app)
+        .post(`/v1/community/${community.id}/join-requests/${requestId}/approve`)
+        .set("Authorization", owner.auth)
+        .expect(403);
+      assert.strictEqual(approve.body.errors[0].message, "Community is archived.");
+
+      await request(app)
+        .post(`/v1/community/${community.id}/join-requests/${requestId}/reject`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+    });
+  });
+
+  describe("Invites", () => {
+    it("should add a user through an invite until it is used up", async () => {
+      const community = await createCommunity(owner, { name: "Invitation Only" });
+      const guest = await signup("Community Guest", "community.guest@example.com");
+
+      await request(app)
+        .post(`/v1/community/${community.id}/invites`)
+        .set("Authorization", outsider.auth)
+        .send({ max_uses: 1 })
+        .expect(403);
+      const invite = await request(app)
+        .post(`/v1/community/${community.id}/invites`)
+        .set("Authorization", owner.auth)
+        .send({ max_uses: 1 })
+        .expect(200);
+      const { token } = invite.body.content.data;
+
+      const redeemed = await request(app)
+        .post(`/v1/invite/${token}`)
+        .set("Authorization", outsider.auth)
+        .expect(200);
+      assert.strictEqual(redeemed.body.content.data.user, outsider.id);
+
+      const usedUp = await request(app)
+        .post(`/v1/invite/${token}`)
+        .set("Authorization", guest.auth)
+        .expect(404);
+      assert.strictEqual(usedUp.body.errors[0].code, "RESOURCE_NOT_FOUND");
+    });
+
+    it("should reject a revoked invite", async () => {
+      const community = await createCommunity(owner, { name: "Changed My Mind" });
+      const invite = await request(app)
+        .post(`/v1/community/${community.id}/invites`)
+        .set("Authorization", owner.auth)
+        .send({})
+        .expect(200);
+
+      await request(app)
+        .delete(`/v1/community/${community.id}/invites/${invite.body.content.data.id}`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+
+      const revoked = await request(app)
+        .post(`/v1/invite/${invite.body.content.data.token}`)
+        .set("Authorization", applicant.auth)
+        .expect(404);
+      assert.strictEqual(revoked.body.errors[0].code, "RESOURCE_NOT_FOUND");
+    });
+  });
+
+  describe("Visibility", () => {
+    it("should show a public community and its members to everyone", async () => {
+      const community = await createCommunity(owner, { name: "Town Square", visibility: "public" });
+
+      await request(app).get(`/v1/community/${community.id}`).expect(200);
+      await request(app).get(`/v1/community/${community.id}/members`).expect(200);
+      assert.strictEqual(await isListed(community), true);
+    });
+
+    it("should only show the members of a private community to its members", async () => {
+      const community = await createCommunity(owner, { name: "Back Room", visibility: "private" });
+
+      await request(app).get(`/v1/community/${community.id}`).expect(200);
+      await request(app).get(`/v1/community/${community.id}/members`).expect(403);
+      await request(app)
+        .get(`/v1/community/${community.id}/members`)
+        .set("Authorization", outsider.auth)
+        .expect(403);
+      await request(app)
+        .get(`/v1/community/${community.id}/members`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      assert.strictEqual(await isListed(community), true);
+    });
+
+    it("should hide a hidden community from everyone but its members", async () => {
+      const community = await createCommunity(owner, { name: "Speakeasy", visibility: "hidden" });
+
+      await request(app).get(`/v1/community/${community.id}`).expect(404);
+      await request(app)
+        .get(`/v1/community/${community.id}`)
+        .set("Authorization", outsider.auth)
+        .expect(404);
+      await request(app)
+        .get(`/v1/community/${community.id}`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      assert.strictEqual(await isListed(community), false);
+
+      const join = await request(app)
+        .post(`/v1/community/${community.id}/join`)
+        .set("Authorization", applicant.auth)
+        .expect(404);
+      assert.strictEqual(join.body.errors[0].code, "RESOURCE_NOT_FOUND");
+      const invite = await request(app)
+        .post(`/v1/community/${community.id}/invites`)
+        .set("Authorization", owner.auth)
+        .send({})
+        .expect(200);
+      await request(app)
+        .post(`/v1/invite/${invite.body.content.data.token}`)
+        .set("Authorization", applicant.auth)
+        .expect(200);
+      await request(app)
+        .get(`/v1/community/${community.id}`)
+        .set("Authorization", applicant.auth)
+        .expect(200);
+    });
+  });
+
+  describe("Searching, filtering and sorting", () => {
+    let searcher: TestUser;
+    const ids: Record<string, string> = {};
+
+    const list = async (query: string): Promise<string[]> => {
+      const response = await request(app)
+        .get(`/v1/community?owner=${searcher.id}&${query}`)
+        .expect(200);
+      return response.body.content.data.map((community: { name: string }) => community.name);
+    };
+
+    beforeAll(async () => {
+      searcher = await signup("Community Searcher", "community.searcher@example.com");
+      for (const [name, visibility] of [
+        ["Alpha Knitting", "public"],
+        ["Beta Knitting", "public"],
+        ["Gamma Chess", "public"],
+        ["Delta Knitting", "private"],
+      ]) {
+        ids[name] = (await createCommunity(searcher, { name, visibility })).id;
+      }
+      for (const [user, name] of [
+        [applicant, "Alpha Knitting"],
+        [outsider, "Alpha Knitting"],
+        [applicant, "Gamma Chess"],
+      ] as const) {
+        await request(app)
+          .post(`/v1/community/${ids[name]}/join`)
+          .set("Authorization", user.auth)
+          .expect(200);
+      }
+    });
+
+    it("should search communities by name and filter them by visibility", async () => {
+      assert.deepStrictEqual(await list("q=KNIT"), ["Alpha Knitting", "Beta Knitting", "Delta Knitting"]);
+      assert.deepStrictEqual(await list("q=knit&visibility=private"), ["Delta Knitting"]);
+    });
+
+    it("should filter communities by member count", async () => {
+      assert.deepStrictEqual(await list("min_members=2"), ["Alpha Knitting", "Gamma Chess"]);
+      assert.deepStrictEqual(await list("max_members=1&sort=name"), ["Beta Knitting", "Delta Knitting"]);
+    });
+
+    it("should sort communities by name and member count", async () => {
+      assert.deepStrictEqual(await list("sort=-name"), [
+        "Gamma Chess",
+        "Delta Knitting",
+        "Beta Knitting",
+        "Alpha Knitting",
+      ]);
+      assert.deepStrictEqual((await list("sort=-members")).slice(0, 2), ["Alpha Knitting", "Gamma Chess"]);
+
+      const response = await request(app).get("/v1/community?sort=popularity").expect(422);
+      assert.strictEqual(response.body.errors[0].param, "sort");
+    });
+
+    it("should reject a cursor handed out for another sort", async () => {
+      const cursor = (value: object) => Buffer.from(JSON.stringify(value)).toString("base64url");
+      const byName = await request(app)
+        .get(`/v1/community?owner=${searcher.id}&sort=name&limit=1`)
+        .expect(200);
+      const next = new URL(byName.body.content.meta.next, "http://localhost").searchParams.get("cursor");
+      await request(app).get(`/v1/community?sort=name&cursor=${next}`).expect(200);
+
+      for (const query of [
+        `sort=members&cursor=${next}`,
+        `cursor=${next}`,
+        `sort=name&cursor=${cursor({ d: "next", id: ids["Alpha Knitting"], s: "name", v: 5 })}`,
+        `sort=members&cursor=${cursor({ d: "next", id: ids["Alpha Knitting"], s: "members", v: "abc" })}`,
+        `sort=name&cursor=${cursor({ d: "next", id: ids["Alpha Knitting"] })}`,
+      ]) {
+        const response = await request(app).get(`/v1/community?${query}`).expect(422);
+        assert.strictEqual(response.body.errors[0].param, "cursor");
+      }
+    });
+
+    it("should filter the members of a community by name and role", async () => {
+      const byName = await request(app)
+        .get(`/v1/community/${ids["Alpha Knitting"]}/members?q=applicant`)
+        .expect(200);
+      assert.deepStrictEqual(
+        byName.body.content.data.map((item: { user: { id: string } }) => item.user.id),
+        [applicant.id]
+      );
+
+      const everyone = await request(app)
+        .get(`/v1/community/${ids["Alpha Knitting"]}/members`)
+        .expect(200);
+      const ownerRole = everyone.body.content.data.find(
+        (item: { user: { id: string } }) => item.user.id === searcher.id
+      ).role.id;
+      const byRole = await request(app)
+        .get(`/v1/community/${ids["Alpha Knitting"]}/members?role=${ownerRole}`)
+        .expect(200);
+      assert.deepStrictEqual(
+        byRole.body.content.data.map((item: { user: { id: string } }) => item.user.id),
+        [searcher.id]
+      );
+    });
+  });
+});
@@ -5,19 +5,25 @@ const pth = path.join(rootDir, '.env.test');
 dotenv.config({ path:  pth});
 
 import { PORT } from '../config';
-import { sequelize } from '../db';
+import { backfillCommunitySlugs, enableExtensions, sequelize } from '../db';
 import { app } from '../providers';
-import { Community, Member, Role, User } from '../models';
+import { loadPasswordDenylist } from '../utils';
+import { AuditLog, Community, CommunitySlug, Invite, JoinRequest, Member, OwnershipTransfer, RefreshToken, RevokedToken, Role, SigninThrottle, User, UserSession, UserToken } from '../models';
 
 
 export const initTestServer = async () => {
   try {
     const port = Number(PORT);
-    sequelize.addModels([User, Role, Community, Member]);
+    loadPasswordDenylist();
+    sequelize.addModels([User, Role, Community, CommunitySlug, Member, OwnershipTransfer, JoinRequest, Invite, AuditLog, UserSession, UserToken, RefreshToken, RevokedToken, SigninThrottle]);
 
+    await enableExtensions();
+    await backfillCommunitySlugs();
     await sequelize.sync({ alter: true });
 
     await sequelize.authenticate();
+    await Role.seedDefaults();
+    await User.syncPlatformAdmins();
     console.log('Connected to the test database');
 
     const server = app.listen(port, () => {
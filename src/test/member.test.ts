@@ -0,0 +1,246 @@
+import assert from "assert";
+import request from "supertest";
+import { beforeAll, describe, it } from "@jest/globals";
+import { initTestServer } from "./init-test-server";
+import { Application } from "express";
+import { Server } from "http";
+
+let app: Application;
+let server: Server;
+
+interface TestUser {
+  id: string;
+  auth: string;
+}
+
+let owner: TestUser;
+let recruiter: TestUser;
+let moderator: TestUser;
+let member: TestUser;
+let newcomer: TestUser;
+let communityId: string;
+const roles: Record<string, string> = {};
+const memberIds: Record<string, string> = {};
+
+const signup = async (name: string, email: string): Promise<TestUser> => {
+  const response = await request(app)
+    .post("/v1/auth/signup")
+    .send({ name, email, password: "Sup3rSecret" })
+    .expect(200);
+  return {
+    id: response.body.content.data.id,
+    auth: `Bearer ${response.body.content.meta.access_token}`,
+  };
+};
+
+const changeRole = (by: TestUser, user: TestUser, role: string) =>
+  request(app)
+    .patch(`/v1/member/${memberIds[user.id]}`)
+    .set("Authorization", by.auth)
+    .send({ role: roles[role] });
+
+const addMember = (by: TestUser, user: TestUser, role: string) =>
+  request(app)
+    .post("/v1/member")
+    .set("Authorization", by.auth)
+    .send({ community: communityId, user: user.id, role: roles[role] });
+
+beforeAll(async () => {
+  try {
+    const { app: application, server: serv } = await initTestServer();
+    app = application;
+    server = serv;
+
+    owner = await signup("Member Owner", "member.owner@example.com");
+    recruiter = await signup("Member Recruiter", "member.recruiter@example.com");
+    moderator = await signup("Member Moderator", "member.moderator@example.com");
+    member = await signup("Member Regular", "member.regular@example.com");
+    newcomer = await signup("Member Newcomer", "member.newcomer@example.com");
+
+    const community = await request(app)
+      .post("/v1/community")
+      .set("Authorization", owner.auth)
+      .send({ name: "Member Tests" })
+      .expect(200);
+    communityId = community.body.content.data.id;
+
+    await request(app)
+      .post(`/v1/community/${communityId}/roles`)
+      .set("Authorization", owner.auth)
+      .send({ name: "Recruiter", permissions: ["member:add"], priority: 10 })
+      .expect(200);
+    const list = await request(app)
+      .get(`/v1/community/${communityId}/roles`)
+      .set("Authorization", owner.auth)
+      .expect(200);
+    for (const role of list.body.content.data) {
+      roles[role.name] = role.id;
+    }
+
+    for (const [user, role] of [
+      [recruiter, "Recruiter"],
+      [moderator, "Community Moderator"],
+      [member, "Community Member"],
+    ] as const) {
+      const added = await addMember(owner, user, role).expect(200);
+      memberIds[user.id] = added.body.content.data.id;
+    }
+  } catch (error) {
+    console.error("Failed to initialize test server:", error);
+    throw error;
+  }
+});
+
+afterAll(async () => {
+  server.close();
+});
+
+describe("Member API Tests", () => {
+  describe("POST /v1/member", () => {
+    it("should not let a member add a user with a role ranked at or above their own", async () => {
+      const admin = await addMember(recruiter, newcomer, "Community Admin").expect(403);
+      assert.strictEqual(admin.body.errors[0].code, "NOT_ALLOWED_ACCESS");
+
+      const equal = await addMember(recruiter, newcomer, "Recruiter").expect(403);
+      assert.strictEqual(
+        equal.body.errors[0].message,
+        "You cannot grant a role ranked equal to or above your own."
+      );
+    });
+
+    it("should not let a user without member:add add members", async () => {
+      const response = await addMember(member, newcomer, "Community Member").expect(403);
+      assert.strictEqual(response.body.errors[0].code, "NOT_ALLOWED_ACCESS");
+    });
+
+    it("should add a user with a lower role and reject adding them again under another role", async () => {
+      const response = await addMember(recruiter, newcomer, "Community Member").expect(200);
+      assert.strictEqual(response.body.content.data.user, newcomer.id);
+
+      const again = await addMember(owner, newcomer, "Community Moderator").expect(409);
+      assert.strictEqual(again.body.errors[0].code, "RESOURCE_EXISTS");
+    });
+  });
+
+  describe("DELETE /v1/community/:communityId/members/me", () => {
+    it("should let a member leave, but not the owner", async () => {
+      await request(app)
+        .delete(`/v1/community/${communityId}/members/me`)
+        .set("Authorization", newcomer.auth)
+        .expect(200);
+      await request(app)
+        .delete(`/v1/community/${communityId}/members/me`)
+        .set("Authorization", newcomer.auth)
+        .expect(404);
+
+      const response = await request(app)
+        .delete(`/v1/community/${communityId}/members/me`)
+        .set("Authorization", owner.auth)
+        .expect(403);
+      assert.strictEqual(
+        response.body.errors[0].message,
+        "The community owner cannot leave or be removed. Transfer the ownership first."
+      );
+    });
+  });
+
+  describe("PATCH /v1/member/:memberId", () => {
+    let promoter: TestUser;
+
+    beforeAll(async () => {
+      promoter = await signup("Member Promoter", "member.promoter@example.com");
+      await request(app)
+        .post(`/v1/community/${communityId}/roles`)
+        .set("Authorization", owner.auth)
+        .send({ name: "Promoter", permissions: ["member:role"], priority: 40 })
+        .expect(200);
+      const list = await request(app)
+        .get(`/v1/community/${communityId}/roles`)
+        .set("Authorization", owner.auth)
+        .expect(200);
+      roles.Promoter = list.body.content.data.find((role: { name: string }) => role.name === "Promoter").id;
+      const added = await addMember(owner, promoter, "Promoter").expect(200);
+      memberIds[promoter.id] = added.body.content.data.id;
+    });
+
+    it("should change the role of a member in place", async () => {
+      const response = await changeRole(owner, member, "Recruiter").expect(200);
+      assert.strictEqual(response.body.content.data.id, memberIds[member.id]);
+      assert.strictEqual(response.body.content.data.role, roles.Recruiter);
+    });
+
+    it("should not let a user without member:role change roles", async () => {
+      const response = await changeRole(moderator, member, "Community Member").expect(403);
+      assert.strictEqual(response.body.errors[0].code, "NOT_ALLOWED_ACCESS");
+    });
+
+    it("should not let a member change a role ranked at or above their own", async () => {
+      const above = await changeRole(promoter, moderator, "Community Member").expect(403);
+      assert.strictEqual(
+        above.body.errors[0].message,
+        "You cannot change the role of a member ranked equal to or above you."
+      );
+
+      const grant = await changeRole(promoter, member, "Community Moderator").expect(403);
+      assert.strictEqual(
+        grant.body.errors[0].message,
+        "You cannot grant a role ranked equal to or above your own."
+      );
+      await changeRole(promoter, member, "Promoter").expect(403);
+
+      const own = await changeRole(promoter, promoter, "Community Member").expect(403);
+      assert.strictEqual(own.body.errors[0].message, "You cannot change your own role.");
+    });
+
+    it("should let a member change the role of a member ranked below them", async () => {
+      const response = await changeRole(promoter, member, "Community Member").expect(200);
+      assert.strictEqual(response.body.content.data.role, roles["Community Member"]);
+    });
+  });
+
+  describe("Removing members", () => {
+    it("should only remove a member from the community in the path", async () => {
+      const elsewhere = await request(app)
+        .post("/v1/community")
+        .set("Authorization", owner.auth)
+        .send({ name: "Member Tests Elsewhere" })
+        .expect(200);
+
+      await request(app)
+        .delete(`/v1/community/${elsewhere.body.content.data.id}/members/${member.id}`)
+        .set("Authorization", owner.auth)
+        .expect(404);
+      await addMember(owner, member, "Community Member").expect(409);
+    });
+
+    it("should not let a user without member:remove remove members", async () => {
+      const response = await request(app)
+        .delete(`/v1/community/${communityId}/members/${member.id}`)
+        .set("Authorization", recruiter.auth)
+        .expect(403);
+      assert.strictEqual(response.body.errors[0].code, "NOT_ALLOWED_ACCESS");
+    });
+
+    it("should not let a member remove someone ranked at or above them", async () => {
+      const response = await request(app)
+        .delete(`/v1/community/${communityId}/members/${owner.id}`)
+        .set("Authorization", moderator.auth)
+        .expect(403);
+      assert.strictEqual(
+        response.body.errors[0].message,
+        "You cannot remove a member ranked equal to or above you."
+      );
+    });
+
+    it("should let a member remove someone ranked below them", async () => {
+      await request(app)
+        .delete(`/v1/community/${communityId}/members/${recruiter.id}`)
+        .set("Authorization", moderator.auth)
+        .expect(200);
+      await request(app)
+        .delete(`/v1/member/${memberIds[member.id]}`)
+        .set("Authorization", moderator.auth)
+        .expect(200);
+    });
+  });
+});
@@ -4,15 +4,26 @@ import { beforeAll, describe, it } from "@jest/globals";
 import { initTestServer } from "./init-test-server";
 import { Application } from "express";
 import { Server } from "http";
+import { User } from "../models";
 
 let app: Application;
 let server: Server;
+let adminAuth: string;
 
 beforeAll(async () => {
   try {
     const { app: application, server: serv } = await initTestServer();
     app = application;
     server = serv;
+
+    const signup = await request(app)
+      .post("/v1/auth/signup")
+      .send({ name: "Platform Admin", email: "platform.admin@example.com", password: "Sup3rSecret" });
+    await User.update(
+      { isPlatformAdmin: true },
+      { where: { email: "platform.admin@example.com" } }
+    );
+    adminAuth = `Bearer ${signup.body.content.meta.access_token}`;
   } catch (error) {
     console.error("Failed to initialize test server:", error);
     throw error;
@@ -32,23 +43,62 @@ describe("Role API Tests", () => {
       assert.strictEqual(typeof response.body.content, "object");
       assert.deepStrictEqual(Object.keys(response.body.content.meta), [
         "total",
-        "pages",
-        "page",
+        "limit",
+        "next",
+        "prev",
       ]);
       assert.deepStrictEqual(Object.keys(response.body.content.data[0]), [
         "id",
         "name",
-        "createdAt",
-        "updatedAt",
+        "permissions",
+        "priority",
+        "created_at",
+        "updated_at",
       ]);
     });
+
+    it("should page through the roles with a cursor", async () => {
+      const first = await request(app).get("/v1/role?limit=1").expect(200);
+      assert.strictEqual(first.body.content.data.length, 1);
+      assert.strictEqual(first.body.content.meta.limit, 1);
+      assert.strictEqual(first.body.content.meta.prev, null);
+      assert(first.body.content.meta.next);
+
+      const second = await request(app).get(first.body.content.meta.next).expect(200);
+      assert.strictEqual(second.body.content.data.length, 1);
+      assert.notStrictEqual(second.body.content.data[0].id, first.body.content.data[0].id);
+
+      const back = await request(app).get(second.body.content.meta.prev).expect(200);
+      assert.strictEqual(back.body.content.data[0].id, first.body.content.data[0].id);
+    });
+
+    it("should reject a limit above the maximum page size", async () => {
+      const response = await request(app).get("/v1/role?limit=1000").expect(422);
+      assert.strictEqual(response.body.errors[0].param, "limit");
+    });
   });
 
   describe("POST /v1/role", () => {
+    it("should not let a user who is not a platform admin create a role", async () => {
+      const signup = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Regular User", email: "regular.user@example.com", password: "Sup3rSecret" })
+        .expect(200);
+
+      const response = await request(app)
+        .post("/v1/role")
+        .set("Authorization", `Bearer ${signup.body.content.meta.access_token}`)
+        .send({ name: "Community Hijacker" })
+        .expect(403);
+      assert.strictEqual(response.body.status, false);
+      assert.strictEqual(response.body.errors[0].code, "NOT_ALLOWED_ACCESS");
+    });
+
     it("should create a new role with valid name", async () => {
       const roleName = "Community Incharge";
       const response = await request(app)
         .post("/v1/role")
+        .set("Authorization", adminAuth)
         .send({ name: roleName })
         .expect(200);
 
@@ -58,18 +108,45 @@ describe("Role API Tests", () => {
       assert.deepStrictEqual(Object.keys(response.body.content.data), [
         "id",
         "name",
+        "permissions",
+        "priority",
         "created_at",
         "updated_at",
       ]);
       assert.strictEqual(response.body.content.data.name, roleName);
+      assert.deepStrictEqual(response.body.content.data.permissions, []);
+    });
+
+    it("should create a new role with the given permissions", async () => {
+      const response = await request(app)
+        .post("/v1/role")
+        .set("Authorization", adminAuth)
+        .send({ name: "Community Gatekeeper", permissions: ["member:add"] })
+        .expect(200);
+
+      assert.strictEqual(response.body.status, true);
+      assert.deepStrictEqual(response.body.content.data.permissions, [
+        "member:add",
+      ]);
+    });
+
+    it("should fail to create role with unknown permissions", async () => {
+      const response = await request(app)
+        .post("/v1/role")
+        .set("Authorization", adminAuth)
+        .send({ name: "Community Gatekeeper", permissions: ["member:ban"] })
+        .expect(422);
+      assert.strictEqual(response.body.status, false);
+      assert.strictEqual(response.body.errors[0].param, "permissions");
     });
 
     it("should fail to create role with invalid name", async () => {
       const invalidRoleName = "A";
       const response = await request(app)
         .post("/v1/role")
+        .set("Authorization", adminAuth)
         .send({ name: invalidRoleName })
-        .expect(400);
+        .expect(422);
       assert.strictEqual(response.body.status, false);
       assert.strictEqual(
         response.body.errors[0].message,
@@ -77,4 +154,138 @@ describe("Role API Tests", () => {
       );
     });
   });
+
+  describe("Community roles", () => {
+    let ownerAuth: string;
+    let managerAuth: string;
+    let communityId: string;
+    let customRoleId: string;
+    let seniorRoleId: string;
+
+    beforeAll(async () => {
+      const owner = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Role Owner", email: "role.owner@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      ownerAuth = `Bearer ${owner.body.content.meta.access_token}`;
+      const manager = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Role Manager", email: "role.manager@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      managerAuth = `Bearer ${manager.body.content.meta.access_token}`;
+
+      const community = await request(app)
+        .post("/v1/community")
+        .set("Authorization", ownerAuth)
+        .send({ name: "Role Tests" })
+        .expect(200);
+      communityId = community.body.content.data.id;
+
+      const managerRole = await request(app)
+        .post(`/v1/community/${communityId}/roles`)
+        .set("Authorization", ownerAuth)
+        .send({ name: "Role Manager", permissions: ["role:manage", "member:add"], priority: 20 })
+        .expect(200);
+      customRoleId = managerRole.body.content.data.id;
+      const seniorRole = await request(app)
+        .post(`/v1/community/${communityId}/roles`)
+        .set("Authorization", ownerAuth)
+        .send({ name: "Senior", permissions: [], priority: 30 })
+        .expect(200);
+      seniorRoleId = seniorRole.body.content.data.id;
+
+      await request(app)
+        .post("/v1/member")
+        .set("Authorization", ownerAuth)
+        .send({ community: communityId, user: manager.body.content.data.id, role: customRoleId })
+        .expect(200);
+    });
+
+    it("should only list custom roles to members of the community", async () => {
+      const response = await request(app)
+        .get(`/v1/role?community=${communityId}&limit=100`)
+        .expect(200);
+      assert(!response.body.content.data.some((role: { id: string }) => role.id === customRoleId));
+
+      await request(app).get(`/v1/community/${communityId}/roles`).expect(401);
+    });
+
+    it("should not let a member create a role with permissions they do not hold", async () => {
+      const response = await request(app)
+        .post(`/v1/community/${communityId}/roles`)
+        .set("Authorization", managerAuth)
+        .send({ name: "Bouncer", permissions: ["member:remove"], priority: 5 })
+        .expect(422);
+      assert.strictEqual(response.body.errors[0].param, "permissions");
+    });
+
+    it("should let a member create a role with a subset of their permissions", async () => {
+      const response = await request(app)
+        .post(`/v1/community/${communityId}/roles`)
+        .set("Authorization", managerAuth)
+        .send({ name: "Greeter", permissions: ["member:add"], priority: 5 })
+        .expect(200);
+      assert.deepStrictEqual(response.body.content.data.permissions, ["member:add"]);
+    });
+
+    it("should not let a member update or delete a role ranked above them", async () => {
+      const update = await request(app)
+        .patch(`/v1/community/${communityId}/roles/${seniorRoleId}`)
+        .set("Authorization", managerAuth)
+        .send({ priority: 1 })
+        .expect(403);
+      assert.strictEqual(update.body.errors[0].code, "NOT_ALLOWED_ACCESS");
+
+      await request(app)
+        .delete(`/v1/community/${communityId}/roles/${seniorRoleId}`)
+        .set("Authorization", managerAuth)
+        .expect(403);
+    });
+  });
+
+  describe("POST /v1/admin/users/:id/ban", () => {
+    it("should not let a platform admin suspend or ban another platform admin", async () => {
+      const other = await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Other Admin", email: "other.admin@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      await User.update({ isPlatformAdmin: true }, { where: { email: "other.admin@example.com" } });
+
+      const ban = await request(app)
+        .post(`/v1/admin/users/${other.body.content.data.id}/ban`)
+        .set("Authorization", adminAuth)
+        .send({})
+        .expect(403);
+      assert.strictEqual(ban.body.errors[0].message, "Platform admins cannot be suspended or banned.");
+      await request(app)
+        .post(`/v1/admin/users/${other.body.content.data.id}/suspend`)
+        .set("Authorization", adminAuth)
+        .send({ until: new Date(Date.now() + 60_000).toISOString() })
+        .expect(403);
+    });
+  });
+
+  describe("User.syncPlatformAdmins", () => {
+    it("should only promote listed addresses that are verified", async () => {
+      await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Claimed Admin", email: "claimed.admin@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      await request(app)
+        .post("/v1/auth/signup")
+        .send({ name: "Verified Admin", email: "verified.admin@example.com", password: "Sup3rSecret" })
+        .expect(200);
+      await User.update(
+        { emailVerifiedAt: new Date() },
+        { where: { email: "verified.admin@example.com" } }
+      );
+
+      await User.syncPlatformAdmins(["claimed.admin@example.com", "verified.admin@example.com"]);
+
+      const claimed = await User.findOne({ where: { email: "claimed.admin@example.com" } });
+      const verified = await User.findOne({ where: { email: "verified.admin@example.com" } });
+      assert.strictEqual(claimed!.isPlatformAdmin, false);
+      assert.strictEqual(verified!.isPlatformAdmin, true);
+    });
+  });
 });
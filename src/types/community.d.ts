@@ -0,0 +1,11 @@
+/**
+ * - public: listed, members visible to anyone, joining needs no approval.
+ * - private: listed, members visible to members only, joining needs approval.
+ * - hidden: unlisted and only visible to members, joining is by invite only.
+ */
+export type TCommunityVisibility = "public" | "private" | "hidden";
+
+/**
+ * Orders of community listings: by creation, name or member count, descending when prefixed with "-".
+ */
+export type TCommunitySort = "created" | "-created" | "name" | "-name" | "members" | "-members";
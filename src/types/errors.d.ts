@@ -1,3 +1,5 @@
 export type TParametricErrors = "INVALID_INPUT" | "RESOURCE_EXISTS" | "INVALID_CREDENTIALS" | "RESOURCE_NOT_FOUND";
 
-export type TNonParametricErrors = "NOT_SIGNEDIN" | "RESOURCE_EXISTS" | "NOT_ALLOWED_ACCESS" | "RESOURCE_NOT_FOUND";
\ No newline at end of file
+export type TNonParametricErrors = "NOT_SIGNEDIN" | "RESOURCE_EXISTS" | "NOT_ALLOWED_ACCESS" | "RESOURCE_NOT_FOUND" | "INVALID_TOKEN" | "TOKEN_EXPIRED" | "EMAIL_NOT_VERIFIED" | "TOO_MANY_ATTEMPTS" | "MFA_REQUIRED" | "ACCOUNT_SUSPENDED";
+
+export type TErrorCode = TParametricErrors | TNonParametricErrors | "BAD_REQUEST" | "INTERNAL_ERROR";
@@ -1,2 +1,10 @@
 export * from "./key-map";
-export * from "./errors";
\ No newline at end of file
+export * from "./errors";
+export * from "./permissions";
+export * from "./community";
+export * from "./transfer";
+export * from "./join-request";
+export * from "./user-token";
+export * from "./profile";
+export * from "./locale";
+export * from "./pagination";
\ No newline at end of file
@@ -0,0 +1 @@
+export type TJoinRequestStatus = "pending" | "approved" | "rejected";
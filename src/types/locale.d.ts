@@ -0,0 +1 @@
+export type TLocale = "en" | "de" | "es";
@@ -0,0 +1 @@
+export type TCursorDirection = "next" | "prev";
@@ -0,0 +1,9 @@
+export type TPermission =
+  | "community:edit"
+  | "community:delete"
+  | "member:add"
+  | "member:remove"
+  | "member:approve"
+  | "member:role"
+  | "invite:manage"
+  | "role:manage";
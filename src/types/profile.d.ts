@@ -0,0 +1 @@
+export type TProfileField = "name" | "bio" | "avatar_url" | "timezone" | "locale";
@@ -0,0 +1 @@
+export type TTransferStatus = "pending" | "accepted" | "declined" | "cancelled";
@@ -0,0 +1 @@
+export type TUserTokenPurpose = "password_reset" | "email_verification";
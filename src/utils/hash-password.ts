@@ -1,6 +1,11 @@
 import bcrypt from "bcrypt";
 import { ParametricError } from "../errors";
 
+/**
+ * A bcrypt hash that matches no user's password. Comparing against it when no user was found
+ * makes signin take as long as for an existing user, so response times do not reveal which emails exist.
+ */
+export const DUMMY_PASSWORD_HASH = "$2b$10$F/yz2/Bk0u/2zl93S1i3a.mYD6WNYI7p0.JLRRT8DlnXSsVrLpHuq";
 
 /**
  * Hashes a plaintext password using bcrypt hashing algorithm.
@@ -14,8 +19,6 @@ export const hashPassword = async (password: string): Promise<string> => {
 	return hashedPassword;
 };
 
-
-
 /**
  * Compares an input password with a hashed password using bcrypt.
  * @param {string} inputPassword - The plaintext password to compare.
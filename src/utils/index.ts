@@ -1,3 +1,9 @@
 export * from "./hash-password";
 export * from "./session";
-export * from "./rename-object-keys";
\ No newline at end of file
+export * from "./token";
+export * from "./rename-object-keys";
+export * from "./slugify";
+export * from "./password-policy";
+export * from "./totp";
+export * from "./pagination";
+export * from "./search";
\ No newline at end of file
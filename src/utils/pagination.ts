@@ -0,0 +1,188 @@
+import { Request } from "express";
+import { Attributes, Model, ModelStatic, Op, WhereOptions, sql } from "@sequelize/core";
+import { PAGE_SIZE_DEFAULT } from "../config";
+import { Cursor, Page, PageOptions, PageRequest, PageSortKey } from "../interfaces";
+import { ParametricError } from "../errors";
+
+/**
+ * Encodes a cursor into the opaque string handed out to clients.
+ * @param {Cursor} cursor - The Snowflake id, sort key and sort value to continue from and the direction to page in.
+ * @returns {string} - The base64url encoded cursor.
+ */
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(
+    JSON.stringify({ d: cursor.direction, id: cursor.id, s: cursor.sort, v: cursor.value })
+  ).toString("base64url");
+
+/**
+ * Decodes a cursor handed out by encodeCursor.
+ * @param {string} value - The opaque cursor.
+ * @returns {Cursor | undefined} - The cursor, or undefined if the value is not a valid cursor.
+ * @description
+ *   - A cursor carries either both the name and the value of the sort key it was handed out for, or neither.
+ */
+export const decodeCursor = (value: string): Cursor | undefined => {
+  try {
+    const { d, id, s, v } = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      (d === "next" || d === "prev") &&
+      typeof id === "string" &&
+      /^\d+$/.test(id) &&
+      ((s === undefined && v === undefined) ||
+        (typeof s === "string" && (typeof v === "string" || typeof v === "number")))
+    ) {
+      return { id, direction: d, sort: s, value: v };
+    }
+  } catch (error) {
+    // Not JSON: falls through to an invalid cursor.
+  }
+  return undefined;
+};
+
+/**
+ * Reads the page size and cursor of a list request, as checked by paginationRules.
+ * @param {Request} req - The request object containing the optional 'limit' and 'cursor' query parameters.
+ * @returns {PageRequest} - The page to load, the first one of the default size unless asked otherwise.
+ */
+export const readPageRequest = (req: Request): PageRequest => {
+  const limit = Number(req.query.limit) || PAGE_SIZE_DEFAULT;
+  const cursor =
+    typeof req.query.cursor === "string" ? decodeCursor(req.query.cursor) : undefined;
+  return { limit, cursor };
+};
+
+/**
+ * Ensures a cursor was handed out for the same sort as the page it continues.
+ * @param {Cursor} cursor - The cursor of the page request.
+ * @param {PageSortKey<M>} [sortKey] - Optional. The sort key of the list, if not sorted by id only.
+ * @throws {ParametricError} - Throws a ParametricError if the cursor belongs to another sort or its value has the
+ *   wrong type for the sort key.
+ */
+const assertCursorFits = <M extends Model>(cursor: Cursor, sortKey?: PageSortKey<M>): void => {
+  if (cursor.sort === sortKey?.name && (!sortKey || typeof cursor.value === sortKey.type)) {
+    return;
+  }
+  throw new ParametricError([
+    {
+      param: "cursor",
+      message: "Cursor is invalid.",
+      code: "INVALID_INPUT",
+    },
+  ]);
+};
+
+/**
+ * Loads one page of a model, ordered by its Snowflake id so pages stay stable while rows are added.
+ * @param {ModelStatic<M>} model - The model to list.
+ * @param {WhereOptions<Attributes<M>>} where - The rows to list.
+ * @param {PageRequest} page - The page size and the cursor to continue from.
+ * @param {PageOptions<M>} [options] - Optional. The direction to sort in, oldest first by default, an expression to sort
+ *   by before the id and extra attributes to select.
+ * @returns {Promise<Page<M>>} - The rows of the page, the total count and the cursors of the neighbouring pages if any.
+ * @description
+ *   - Rejects a cursor handed out for another sort than the one of the list.
+ *   - Continues after the sort value and id of the cursor, so rows sharing a sort value are neither skipped nor repeated.
+ *   - Fetches one row more than the limit to know whether there is a page past this one.
+ *   - Pages backwards by reversing the order from the cursor, then restores the order of the rows.
+ */
+export const paginate = async <M extends Model & { id: string }>(
+  model: ModelStatic<M>,
+  where: WhereOptions<Attributes<M>>,
+  page: PageRequest,
+  options: PageOptions<M> = {}
+): Promise<Page<M>> => {
+  const { limit, cursor } = page;
+  const { direction = "ASC", sortKey, attributes } = options;
+  const backwards = cursor?.direction === "prev";
+  const ascending = (direction === "ASC") !== backwards;
+  const op = ascending ? Op.gt : Op.lt;
+  if (cursor) {
+    assertCursorFits(cursor, sortKey);
+  }
+
+  let after: WhereOptions | undefined;
+  if (cursor && sortKey) {
+    after = {
+      [Op.or]: [
+        sql.where(sortKey.expression, op, cursor.value),
+        {
+          [Op.and]: [
+            sql.where(sortKey.expression, Op.eq, cursor.value),
+            { id: { [op]: cursor.id } },
+          ],
+        },
+      ],
+    };
+  } else if (cursor) {
+    after = { id: { [op]: cursor.id } };
+  }
+
+  const order = ascending ? "ASC" : "DESC";
+  const rows: M[] = await model.findAll({
+    where: (after ? { [Op.and]: [where, after] } : where) as WhereOptions<Attributes<M>>,
+    attributes,
+    order: sortKey
+      ? [[sortKey.expression, order], ["id", order]]
+      : [["id", order]],
+    limit: limit + 1,
+  });
+  const total = await model.count({ where });
+
+  const hasMore = rows.length > limit;
+  rows.splice(limit);
+  if (backwards) {
+    rows.reverse();
+  }
+  const hasNext = backwards ? Boolean(cursor) : hasMore;
+  const hasPrev = backwards ? hasMore : Boolean(cursor);
+  const cursorAt = (row: M, cursorDirection: Cursor["direction"]): string =>
+    encodeCursor({
+      id: row.id,
+      direction: cursorDirection,
+      sort: sortKey?.name,
+      value: sortKey?.value(row),
+    });
+
+  return {
+    rows,
+    total,
+    next: hasNext && rows.length ? cursorAt(rows[rows.length - 1], "next") : undefined,
+    prev: hasPrev && rows.length ? cursorAt(rows[0], "prev") : undefined,
+  };
+};
+
+/**
+ * Builds the pagination metadata of a list response.
+ * @param {Request} req - The request object, whose path and query parameters the links keep.
+ * @param {Page<unknown>} page - The loaded page.
+ * @param {PageRequest} pageRequest - The page size asked for.
+ * @returns {{ total: number; limit: number; next: string | null; prev: string | null }} - The total count, page size
+ *   and links to the next and previous pages, null at either end of the list.
+ */
+export const pageMeta = (
+  req: Request,
+  page: Page<unknown>,
+  pageRequest: PageRequest
+): { total: number; limit: number; next: string | null; prev: string | null } => {
+  const link = (cursor?: string): string | null => {
+    if (!cursor) {
+      return null;
+    }
+    const query = new URLSearchParams();
+    for (const [key, value] of Object.entries(req.query)) {
+      if (key !== "cursor" && typeof value === "string") {
+        query.set(key, value);
+      }
+    }
+    query.set("cursor", cursor);
+    const path = req.path === "/" ? "" : req.path;
+    return `${req.baseUrl}${path}?${query.toString()}`;
+  };
+
+  return {
+    total: page.total,
+    limit: pageRequest.limit,
+    next: link(page.next),
+    prev: link(page.prev),
+  };
+};
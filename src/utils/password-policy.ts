@@ -0,0 +1,101 @@
+import fs from "fs";
+import {
+  PASSWORD_DENYLIST_FILE,
+  PASSWORD_MAX_BYTES,
+  PASSWORD_MIN_LENGTH,
+  PASSWORD_REQUIRE_DIGIT,
+  PASSWORD_REQUIRE_LOWERCASE,
+  PASSWORD_REQUIRE_SYMBOL,
+  PASSWORD_REQUIRE_UPPERCASE,
+} from "../config";
+
+export interface PasswordRule {
+	message: string;
+	params?: Record<string, string | number>;
+	test: (password: string) => boolean;
+}
+
+let denylist: Set<string> | undefined;
+
+/**
+ * Loads the denylist of common passwords, lower-cased. Blank lines and lines starting with '#' are skipped.
+ * Called at startup, so the server does not start while the denylist is missing.
+ * @param {string} [file] - Optional. The path of the denylist, the configured one by default.
+ * @throws {Error} - Throws an Error if the file cannot be read.
+ */
+export const loadPasswordDenylist = (file: string = PASSWORD_DENYLIST_FILE): void => {
+	let content: string;
+	try {
+		content = fs.readFileSync(file, "utf8");
+	} catch (error) {
+		throw new Error(`Could not read the password denylist at ${file}: ${(error as Error).message}`);
+	}
+	denylist = new Set(
+		content
+			.split(/\r?\n/)
+			.map((line) => line.trim().toLowerCase())
+			.filter((line) => line && !line.startsWith("#"))
+	);
+};
+
+/**
+ * Returns the denylist loaded by loadPasswordDenylist.
+ * @returns {Set<string>} - The denied passwords.
+ * @throws {Error} - Throws an Error if the denylist was not loaded, rather than letting every password through.
+ */
+const getDenylist = (): Set<string> => {
+	if (!denylist) {
+		throw new Error("The password denylist has not been loaded.");
+	}
+	return denylist;
+};
+
+/**
+ * Builds the rules of the configured password policy.
+ * @returns {PasswordRule[]} - One rule per requirement, each with the message (and its params) to show when it is not met.
+ */
+export const getPasswordRules = (): PasswordRule[] => {
+	const rules: PasswordRule[] = [
+		{
+			message: "Password should be at least {min} characters.",
+			params: { min: PASSWORD_MIN_LENGTH },
+			test: (password) => password.length >= PASSWORD_MIN_LENGTH,
+		},
+		{
+			message: "Password should be at most {max} bytes long.",
+			params: { max: PASSWORD_MAX_BYTES },
+			test: (password) => Buffer.byteLength(password, "utf8") <= PASSWORD_MAX_BYTES,
+		},
+	];
+
+	if (PASSWORD_REQUIRE_LOWERCASE) {
+		rules.push({
+			message: "Password should contain a lowercase letter.",
+			test: (password) => /[a-z]/.test(password),
+		});
+	}
+	if (PASSWORD_REQUIRE_UPPERCASE) {
+		rules.push({
+			message: "Password should contain an uppercase letter.",
+			test: (password) => /[A-Z]/.test(password),
+		});
+	}
+	if (PASSWORD_REQUIRE_DIGIT) {
+		rules.push({
+			message: "Password should contain a digit.",
+			test: (password) => /\d/.test(password),
+		});
+	}
+	if (PASSWORD_REQUIRE_SYMBOL) {
+		rules.push({
+			message: "Password should contain a symbol.",
+			test: (password) => /[^A-Za-z0-9]/.test(password),
+		});
+	}
+
+	rules.push({
+		message: "This password is too common, please choose another one.",
+		test: (password) => !getDenylist().has(password.toLowerCase()),
+	});
+	return rules;
+};
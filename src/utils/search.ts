@@ -0,0 +1,7 @@
+/**
+ * Builds an ILIKE pattern matching values that contain the search query.
+ * @param {string} query - The search query, matched literally.
+ * @returns {string} - The pattern, with the wildcards and escape character of the query escaped.
+ */
+export const containsPattern = (query: string): string =>
+  `%${query.replace(/[\\%_]/g, "\\$&")}%`;
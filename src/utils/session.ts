@@ -1,31 +1,109 @@
-import jwt, { JwtPayload } from "jsonwebtoken";
-import { UserPayloadForJwt } from "../interfaces";
-import { JWT_SECRET } from "../config";
-import { ParametricError } from "../errors";
+import crypto from "crypto";
+import { Request } from "express";
+import jwt, { TokenExpiredError } from "jsonwebtoken";
+import { SessionPayload, UserPayloadForJwt } from "../interfaces";
+import { ACCESS_TOKEN_TTL, JWT_SECRET, MFA_CHALLENGE_TTL } from "../config";
+import { NonParametricError } from "../errors";
 
 
 /**
- * Encrypts a session payload into a JWT token using the JWT_SECRET.
+ * Encrypts a session payload into a short-lived JWT token using the JWT_SECRET.
  * @param {UserPayloadForJwt} payload - The payload to encrypt into the JWT token.
- * @returns {string} - The encrypted JWT token.
+ * @returns {string} - The encrypted JWT token, expiring after ACCESS_TOKEN_TTL seconds and carrying a unique `jti`.
  */
 export const encryptSession = (payload: UserPayloadForJwt): string => {
-	const jwtToken = jwt.sign(payload, JWT_SECRET);
+	const jwtToken = jwt.sign(payload, JWT_SECRET, {
+		expiresIn: ACCESS_TOKEN_TTL,
+		jwtid: crypto.randomUUID(),
+	});
 	return jwtToken;
 };
 
 
 /**
- * Decrypts a JWT token into the original user ID using the JWT_SECRET.
+ * Decrypts a JWT token into its session payload using the JWT_SECRET.
  * @param {string} jwtToken - The JWT token to decrypt.
- * @returns {string} - The decrypted user ID extracted from the JWT token.
- * @throws {ParametricError} - Throws a ParametricError if the JWT token is invalid or expired.
+ * @returns {SessionPayload} - The decrypted payload: user ID, token ID, issue and expiry times.
+ * @throws {NonParametricError} - Throws a NonParametricError with code TOKEN_EXPIRED if the JWT token expired, INVALID_TOKEN if it is otherwise invalid.
  */
-export const decryptSession = (jwtToken: string): string => {
+export const decryptSession = (jwtToken: string): SessionPayload => {
 	try {
-		const { id } = jwt.verify(jwtToken, JWT_SECRET) as JwtPayload;
-		return id;	
+		return jwt.verify(jwtToken, JWT_SECRET) as SessionPayload;
 	} catch (error) {
-		throw new ParametricError([{message: "User not found.", param: "user", code: "RESOURCE_NOT_FOUND"}])
+		if (error instanceof TokenExpiredError) {
+			throw new NonParametricError([{message: "Your session has expired.", code: "TOKEN_EXPIRED"}])
+		}
+		throw new NonParametricError([{message: "Your session token is invalid.", code: "INVALID_TOKEN"}])
 	}
 };
+
+
+/**
+ * Reads the access token of a request.
+ * @param {Request} req - The request object potentially containing an Authorization header or a session JWT.
+ * @returns {string | undefined} - The token from the `Authorization: Bearer` header if present, otherwise `req.session.jwt`.
+ * @throws {NonParametricError} - Throws a NonParametricError if the Authorization header is not a Bearer token.
+ */
+export const readToken = (req: Request): string | undefined => {
+	const header = req.headers.authorization;
+	if (header === undefined) {
+		return req.session?.jwt;
+	}
+
+	const [scheme, token, ...rest] = header.trim().split(/\s+/);
+	if (scheme.toLowerCase() !== "bearer" || !token || rest.length > 0) {
+		throw new NonParametricError([
+			{
+				message: "The Authorization header must be of the form 'Bearer <token>'.",
+				code: "INVALID_TOKEN",
+			},
+		]);
+	}
+	return token;
+};
+
+
+/**
+ * Reads the session ID of an access token without checking its expiry, so an expired token can still sign its session out.
+ * @param {string} jwtToken - The JWT token to read.
+ * @returns {string | undefined} - The session ID, or undefined if the token is invalid.
+ */
+export const readSessionId = (jwtToken: string): string | undefined => {
+	try {
+		return (jwt.verify(jwtToken, JWT_SECRET, { ignoreExpiration: true }) as SessionPayload).sid;
+	} catch (error) {
+		return undefined;
+	}
+};
+
+
+/**
+ * Encrypts a two-factor challenge, handed out by signin when the password was right but a code is still needed.
+ * It cannot be used as an access token since it carries no session.
+ * @param {string} userId - The ID of the user signing in.
+ * @returns {string} - The JWT token, expiring after MFA_CHALLENGE_TTL seconds.
+ */
+export const encryptMfaChallenge = (userId: string): string => {
+	return jwt.sign({ id: userId }, JWT_SECRET, {
+		expiresIn: MFA_CHALLENGE_TTL,
+		audience: "mfa",
+	});
+};
+
+
+/**
+ * Decrypts a two-factor challenge.
+ * @param {string} jwtToken - The JWT token to decrypt.
+ * @returns {string} - The ID of the user signing in.
+ * @throws {NonParametricError} - Throws a NonParametricError with code TOKEN_EXPIRED if the challenge expired, INVALID_TOKEN if it is otherwise invalid.
+ */
+export const decryptMfaChallenge = (jwtToken: string): string => {
+	try {
+		return (jwt.verify(jwtToken, JWT_SECRET, { audience: "mfa" }) as UserPayloadForJwt).id;
+	} catch (error) {
+		if (error instanceof TokenExpiredError) {
+			throw new NonParametricError([{message: "Your sign in challenge has expired, please sign in again.", code: "TOKEN_EXPIRED"}])
+		}
+		throw new NonParametricError([{message: "Your sign in challenge is invalid.", code: "INVALID_TOKEN"}])
+	}
+};
\ No newline at end of file
@@ -0,0 +1,12 @@
+/**
+ * Converts a string into a URL friendly slug.
+ * @param {string} value - The string to convert, e.g. a community name.
+ * @returns {string} - The lowercase slug with runs of non-word characters replaced by a single dash
+ *   and no leading or trailing dashes.
+ */
+export const slugify = (value: string): string => {
+  return value
+    .toLowerCase()
+    .replace(/[\s\W_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+};
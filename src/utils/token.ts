@@ -0,0 +1,30 @@
+import crypto from "crypto";
+
+
+/**
+ * Generates a random opaque token, e.g. a refresh token.
+ * @returns {string} - A URL safe random token.
+ */
+export const generateToken = (): string => {
+	return crypto.randomBytes(32).toString("base64url");
+};
+
+
+/**
+ * Hashes an opaque token so it can be stored and looked up without keeping the token itself.
+ * @param {string} token - The token to hash.
+ * @returns {string} - The hex encoded SHA-256 hash of the token.
+ */
+export const hashToken = (token: string): string => {
+	return crypto.createHash("sha256").update(token).digest("hex");
+};
+
+
+/**
+ * Generates a one-time recovery code for two-factor authentication.
+ * @returns {string} - A code of two groups of five hex digits, e.g. "3f9a1-c07e2".
+ */
+export const generateRecoveryCode = (): string => {
+	const hex = crypto.randomBytes(5).toString("hex");
+	return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+};
\ No newline at end of file
@@ -0,0 +1,134 @@
+import crypto from "crypto";
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+const TOTP_PERIOD = 30; // seconds
+const TOTP_DIGITS = 6;
+
+/**
+ * Encodes bytes as unpadded base32 (RFC 4648), the format authenticator apps expect secrets in.
+ * @param {Buffer} buffer - The bytes to encode.
+ * @returns {string} - The base32 encoded string.
+ */
+const base32Encode = (buffer: Buffer): string => {
+	let bits = 0;
+	let value = 0;
+	let output = "";
+	for (const byte of buffer) {
+		value = (value << 8) | byte;
+		bits += 8;
+		while (bits >= 5) {
+			output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+			bits -= 5;
+		}
+	}
+	if (bits > 0) {
+		output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+	}
+	return output;
+};
+
+/**
+ * Decodes an unpadded base32 string (RFC 4648), ignoring case, spaces and padding.
+ * @param {string} input - The base32 encoded string.
+ * @returns {Buffer} - The decoded bytes.
+ */
+const base32Decode = (input: string): Buffer => {
+	const clean = input.toUpperCase().replace(/[\s=]/g, "");
+	let bits = 0;
+	let value = 0;
+	const output: number[] = [];
+	for (const char of clean) {
+		const index = BASE32_ALPHABET.indexOf(char);
+		if (index === -1) {
+			throw new Error(`Invalid base32 character '${char}'.`);
+		}
+		value = (value << 5) | index;
+		bits += 5;
+		if (bits >= 8) {
+			output.push((value >>> (bits - 8)) & 255);
+			bits -= 8;
+		}
+	}
+	return Buffer.from(output);
+};
+
+/**
+ * Computes the HOTP code (RFC 4226) of a secret for a counter.
+ * @param {string} secret - The base32 encoded secret.
+ * @param {number} counter - The counter, for TOTP the number of periods since the epoch.
+ * @returns {string} - The zero padded code.
+ */
+const hotp = (secret: string, counter: number): string => {
+	const message = Buffer.alloc(8);
+	message.writeBigUInt64BE(BigInt(counter));
+	const digest = crypto.createHmac("sha1", base32Decode(secret)).update(message).digest();
+	const offset = digest[digest.length - 1] & 0xf;
+	const binary = digest.readUInt32BE(offset) & 0x7fffffff;
+	return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, "0");
+};
+
+/**
+ * Generates a random TOTP secret.
+ * @returns {string} - A base32 encoded 160-bit secret.
+ */
+export const generateTotpSecret = (): string => {
+	return base32Encode(crypto.randomBytes(20));
+};
+
+/**
+ * Builds the otpauth URI of a secret, to be shown as a QR code and scanned by an authenticator app.
+ * @param {string} secret - The base32 encoded secret.
+ * @param {string} account - The account name shown in the app, e.g. the user's email.
+ * @param {string} issuer - The name of the service shown in the app.
+ * @returns {string} - The otpauth URI.
+ */
+export const totpUri = (secret: string, account: string, issuer: string): string => {
+	const label = encodeURIComponent(`${issuer}:${account}`);
+	const params = new URLSearchParams({
+		secret,
+		issuer,
+		algorithm: "SHA1",
+		digits: String(TOTP_DIGITS),
+		period: String(TOTP_PERIOD),
+	});
+	return `otpauth://totp/${label}?${params.toString()}`;
+};
+
+/**
+ * Computes the TOTP code (RFC 6238) of a secret, as an authenticator app shows it.
+ * @param {string} secret - The base32 encoded secret.
+ * @param {number} [time] - Optional. The time in milliseconds since the epoch, now by default.
+ * @returns {string} - The zero padded code.
+ */
+export const generateTotp = (secret: string, time: number = Date.now()): string => {
+	return hotp(secret, Math.floor(time / 1000 / TOTP_PERIOD));
+};
+
+/**
+ * Checks a TOTP code (RFC 6238), allowing one period of clock drift either way.
+ * @param {string} secret - The base32 encoded secret.
+ * @param {string} code - The code entered by the user.
+ * @param {number} [after] - Optional. Only accepts codes of periods later than this one, so a code cannot be replayed.
+ * @returns {number | null} - The period the code belongs to, or null if it does not match.
+ */
+export const verifyTotp = (secret: string, code: string, after?: number | null): number | null => {
+	const normalized = code.replace(/\s/g, "");
+	if (!/^\d+$/.test(normalized)) {
+		return null;
+	}
+
+	const current = Math.floor(Date.now() / 1000 / TOTP_PERIOD);
+	for (const step of [current - 1, current, current + 1]) {
+		if (after != null && step <= after) {
+			continue;
+		}
+		const expected = hotp(secret, step);
+		if (
+			expected.length === normalized.length &&
+			crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))
+		) {
+			return step;
+		}
+	}
+	return null;
+};